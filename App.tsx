@@ -1,31 +1,259 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GameBoard } from './components/GameBoard';
-import { LEVELS } from './constants';
-import { HelpCircle, Trophy, X, BarChart3 } from 'lucide-react';
-import { Block } from './types';
+import { LevelNotationModal } from './components/LevelNotationModal';
+import { LevelEditor } from './components/LevelEditor';
+import { AnalysisModal } from './components/AnalysisModal';
+import { GeneratorModal } from './components/GeneratorModal';
+import { LevelSelect } from './components/LevelSelect';
+import { LeaderboardModal } from './components/LeaderboardModal';
+import { DailyModal } from './components/DailyModal';
+import { ReplayViewer } from './components/ReplayViewer';
+import { ExportModal } from './components/ExportModal';
+import { KeyBindingsModal } from './components/KeyBindingsModal';
+import { ThemeModal } from './components/ThemeModal';
+import { resolveTheme } from './themes';
+import { HelpCircle, Trophy, X, LayoutGrid, FileText, Pencil, Share2, Network, Dices, ChevronRight, Volume2, VolumeX, LogIn, LogOut, Star, Clock, CalendarDays, Film, Clapperboard, Keyboard, Palette } from 'lucide-react';
+import { User } from 'firebase/auth';
+import { GameState, LevelDefinition, LevelPack, MoveMetric, PackProgress } from './types';
+import { createGameState } from './services/engine';
+import { buildShareUrl, loadSharedPuzzle, SHARE_PATH_PREFIX } from './services/shareLink';
+import { BUILTIN_PACKS, findPackLevel, mergeProgress, recordSolve } from './services/levelPacks';
+import { loadSave, restoreGame, toSavedGame, writeSave } from './services/storage';
+import { audioService } from './services/audioService';
+import { pullProgress, pushProgress, signIn, signOutUser, watchUser } from './services/accountService';
+import { submitScore } from './services/leaderboardService';
+import { Stopwatch, formatDuration } from './services/stopwatch';
+import { findPar, isAssisted, starRating } from './services/scoring';
+import { isSolverCancelled } from './services/solverClient';
+import { DAILY_METRIC, DailyHistory, currentStreak, dailyKeyOf, dailySummary, recordDaily } from './services/daily';
 
-type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
+type View = 'game' | 'editor' | 'levels';
+
+// Drop a /p/... share path from the address bar once the player moves on
+const clearSharePath = () => {
+  if (window.location.pathname.startsWith(SHARE_PATH_PREFIX)) {
+    window.history.replaceState(null, '', '/');
+  }
+};
 
 function App() {
-  const [difficulty, setDifficulty] = useState<Difficulty>('HARD');
-  const [blocks, setBlocks] = useState<Block[]>(LEVELS.HARD);
-  const [moves, setMoves] = useState(0);
+  // Firebase hosting rewrites every path to index.html, so /p/<layout> links land here
+  const [shared] = useState(() => loadSharedPuzzle(window.location.pathname, window.location.search));
+  const [save] = useState(loadSave);
+  const [restored] = useState(() => {
+    const saved = !shared && save.game ? restoreGame(save.game) : null;
+    return saved && !saved.isWon ? saved : null;
+  });
+  const [packs, setPacks] = useState<LevelPack[]>(BUILTIN_PACKS);
+  const [progress, setProgress] = useState<PackProgress>(save.progress);
+  const [daily, setDaily] = useState<DailyHistory>(save.daily);
+  const [game, setGame] = useState<GameState>(() =>
+    shared?.game ?? restored ?? createGameState(BUILTIN_PACKS[0].levels[0].level, save.settings.metric));
+  const [muted, setMuted] = useState(save.settings.muted);
+  const [keyBindings, setKeyBindings] = useState(save.settings.keyBindings);
+  const [themeId, setThemeId] = useState(save.settings.theme);
+  const [toast, setToast] = useState<string | null>(shared?.error ?? null);
   const [showInstructions, setShowInstructions] = useState(false);
-  const [hasWon, setHasWon] = useState(false);
+  // Set when the current game is won
+  const [victory, setVictory] = useState<{ timeMs: number; stars: number } | null>(null);
+  const [par, setPar] = useState<number | null>(null);
+  const [showNotation, setShowNotation] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [showDaily, setShowDaily] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [showThemes, setShowThemes] = useState(false);
+  const [view, setView] = useState<View>('game');
+  const [user, setUser] = useState<User | null>(null);
+  // Uid whose stored progress has been merged in; pushes wait for that
+  const syncedUidRef = useRef<string | null>(null);
+
+  // Starts on the first move; a restored game carries on from its saved time
+  const [stopwatch] = useState(() => new Stopwatch(restored ? save.game?.elapsedMs : 0));
+  const elapsedMs = () => stopwatch.elapsedMs;
+
+  useEffect(() => {
+    if (game.isWon) stopwatch.stop();
+    else if (game.history.length > 0 && !stopwatch.isStarted) stopwatch.start();
+  }, [game.history.length, game.isWon]);
+
+  useEffect(() => {
+    const onVisibilityChange = () => stopwatch.setVisible(!document.hidden);
+    onVisibilityChange();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    setPar(null);
+    const task = findPar(game.level, game.metric, packs);
+    task.promise.then(setPar).catch(error => {
+      if (!isSolverCancelled(error)) console.error("Error finding par:", error);
+    });
+    return () => task.cancel();
+  }, [game.level, game.metric, packs]);
+
+  useEffect(() => {
+    audioService.setMuted(muted);
+  }, [muted]);
+
+  useEffect(() => watchUser(setUser), []);
+
+  // On sign-in, merge the account's progress with this device's
+  useEffect(() => {
+    syncedUidRef.current = null;
+    if (!user) return;
+    let cancelled = false;
+    pullProgress(user.uid)
+      .then(remote => {
+        if (cancelled) return;
+        syncedUidRef.current = user.uid;
+        setProgress(prev => mergeProgress(prev, remote));
+      })
+      .catch(error => {
+        console.error("Error syncing progress:", error);
+        setToast("Could not sync your progress.");
+      });
+    return () => { cancelled = true; };
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || syncedUidRef.current !== user.uid) return;
+    pushProgress(user.uid, progress).catch(error => console.error("Error saving progress:", error));
+  }, [user, progress]);
+
+  // Autosave on every change; a finished game is not worth resuming
+  useEffect(() => {
+    writeSave({
+      game: game.isWon ? null : toSavedGame(game, elapsedMs()),
+      progress,
+      daily,
+      settings: { muted, metric: game.metric, keyBindings, theme: themeId },
+    });
+  }, [game, progress, daily, muted, keyBindings, themeId]);
+
+  const startGame = (level: LevelDefinition, metric = game.metric) => {
+    setGame(createGameState(level, metric));
+    setVictory(null);
+    setShowReplay(false);
+    stopwatch.reset();
+  };
+
+  // Where the current level sits in the packs; null for custom and shared levels
+  const packLevel = findPackLevel(packs, game.level.id);
+  const nextLevel = packLevel && packLevel.index + 1 < packLevel.pack.levels.length
+    ? { pack: packLevel.pack, index: packLevel.index + 1 }
+    : null;
+
+  const hasLeaderboard = !!findPackLevel(BUILTIN_PACKS, game.level.id);
+
+  // Shortcuts and the gamepad leave the board alone while any of these is up
+  const dialogOpen = showInstructions || showNotation || showAnalysis || showGenerator || showLeaderboard ||
+    showDaily || showReplay || showExport || showControls || showThemes || !!victory;
+
+  const theme = resolveTheme(themeId, game.level);
 
   const resetGame = () => {
-    setBlocks(LEVELS[difficulty]);
-    setMoves(0);
-    setHasWon(false);
+    startGame(game.level);
+  };
+
+  const playPackLevel = (pack: LevelPack, index: number) => {
+    startGame(pack.levels[index].level);
+    setView('game');
+    clearSharePath();
+  };
+
+  const playDaily = (level: LevelDefinition) => {
+    startGame(level, DAILY_METRIC);
+    setShowDaily(false);
+    setView('game');
+    clearSharePath();
+  };
+
+  const shareDaily = async (key: string) => {
+    const record = daily[key];
+    if (!record) return;
+    const summary = dailySummary(key, record, currentStreak(daily, key));
+    try {
+      await navigator.clipboard.writeText(summary);
+      setToast("Result copied!");
+    } catch (error) {
+      console.error("Error copying daily result:", error);
+      setToast(summary);
+    }
+  };
+
+  // A pack with the id of one already loaded replaces it
+  const loadPack = (pack: LevelPack) => {
+    setPacks(prev => [...prev.filter(p => p.id !== pack.id), pack]);
+    setToast(`Loaded "${pack.title}" (${pack.levels.length} levels)`);
+  };
+
+  const handleWin = (won: GameState) => {
+    const timeMs = elapsedMs();
+    const stars = starRating(won, par);
+    setVictory({ timeMs, stars });
+    const dayKey = dailyKeyOf(won.level.id);
+    if (dayKey) {
+      setDaily(prev => recordDaily(prev, dayKey, {
+        metric: won.metric, moves: won.moves, timeMs, stars, par, assisted: isAssisted(won),
+      }));
+    }
+    if (!findPackLevel(packs, won.level.id)) return;
+    setProgress(prev => recordSolve(prev, won, timeMs, stars));
+    // The server only knows the built-in packs; computer-played games stay off the board
+    if (!user || won.autoMoves > 0 || !findPackLevel(BUILTIN_PACKS, won.level.id)) return;
+    submitScore(won, timeMs)
+      .then(improved => { if (improved) setToast("New personal best posted to the leaderboard!"); })
+      .catch(error => {
+        console.error("Error submitting score:", error);
+        setToast("Could not post your score.");
+      });
   };
 
-  const changeDifficulty = (newDiff: Difficulty) => {
-    setDifficulty(newDiff);
-    setBlocks(LEVELS[newDiff]);
-    setMoves(0);
-    setHasWon(false);
+  const handleSignIn = async () => {
+    try {
+      await signIn();
+    } catch (error) {
+      console.error("Error signing in:", error);
+      setToast("Sign-in failed.");
+    }
   };
 
+  const handleSignOut = async () => {
+    await signOutUser();
+    setToast("Signed out. Progress stays on this device.");
+  };
+
+  const importLevel = (level: LevelDefinition) => {
+    startGame(level);
+    setShowNotation(false);
+    setShowAnalysis(false);
+    setShowGenerator(false);
+    setView('game');
+    clearSharePath();
+  };
+
+  const shareGame = async () => {
+    const url = buildShareUrl(window.location.origin, game);
+    try {
+      await navigator.clipboard.writeText(url);
+      setToast(game.history.length ? "Link to this position copied!" : "Puzzle link copied!");
+    } catch (error) {
+      console.error("Error copying share link:", error);
+      setToast(url);
+    }
+  };
+
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(() => setToast(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [toast]);
+
   return (
     <div className="h-[100dvh] w-full bg-slate-50 flex flex-col overflow-hidden">
       
@@ -38,18 +266,114 @@ function App() {
         </div>
 
         <div className="flex items-center gap-2">
-            <div className="flex items-center bg-slate-100 rounded-lg px-2 py-1.5 border border-slate-200">
-                <BarChart3 size={16} className="text-slate-500 mr-2 hidden sm:block" />
-                <select 
-                    value={difficulty}
-                    onChange={(e) => changeDifficulty(e.target.value as Difficulty)}
-                    className="bg-transparent text-sm font-bold text-slate-600 outline-none cursor-pointer uppercase"
-                >
-                    <option value="EASY">Easy</option>
-                    <option value="MEDIUM">Medium</option>
-                    <option value="HARD">Hard</option>
-                </select>
-            </div>
+            <button
+              onClick={() => setView(v => v === 'levels' ? 'game' : 'levels')}
+              className={`flex items-center rounded-lg px-2 py-1.5 border text-sm font-bold max-w-[14rem] transition-colors ${view === 'levels' ? 'bg-amber-100 text-amber-600 border-amber-200' : 'bg-slate-100 text-slate-600 border-slate-200 hover:bg-slate-200'}`}
+              title={view === 'levels' ? "Back to game" : "Choose a level"}
+            >
+                <LayoutGrid size={16} className="mr-2 shrink-0 hidden sm:block" />
+                <span className="truncate">
+                  {packLevel ? `${packLevel.index + 1}. ${game.level.name}` : game.level.name}
+                </span>
+            </button>
+
+            <button 
+              onClick={() => setShowDaily(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Daily challenge"
+            >
+              <CalendarDays size={24} />
+            </button>
+
+            <button 
+              onClick={() => setView(v => v === 'editor' ? 'game' : 'editor')}
+              className={`p-2 rounded-full transition-colors ${view === 'editor' ? 'bg-amber-100 text-amber-600' : 'hover:bg-slate-100 text-slate-500'}`}
+              title={view === 'editor' ? "Back to game" : "Level editor"}
+            >
+              <Pencil size={24} />
+            </button>
+
+            <button 
+              onClick={shareGame}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Copy a link to this puzzle and position"
+            >
+              <Share2 size={24} />
+            </button>
+
+            <button 
+              onClick={() => setShowNotation(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Import / export level text"
+            >
+              <FileText size={24} />
+            </button>
+
+            <button 
+              onClick={() => setShowGenerator(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Generate a random puzzle"
+            >
+              <Dices size={24} />
+            </button>
+
+            <button 
+              onClick={() => setShowAnalysis(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Analyze this level"
+            >
+              <Network size={24} />
+            </button>
+
+            <button 
+              onClick={() => setShowExport(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Export a solution"
+            >
+              <Clapperboard size={24} />
+            </button>
+
+            {hasLeaderboard && (
+              <button 
+                onClick={() => setShowLeaderboard(true)}
+                className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+                title="Leaderboard"
+              >
+                <Trophy size={24} />
+              </button>
+            )}
+
+            <button 
+              onClick={user ? handleSignOut : handleSignIn}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title={user ? `Signed in as ${user.displayName || 'Anonymous'} (sign out)` : "Sign in to sync progress and post scores"}
+            >
+              {user ? <LogOut size={24} /> : <LogIn size={24} />}
+            </button>
+
+            <button 
+              onClick={() => setShowThemes(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Change the theme"
+            >
+              <Palette size={24} />
+            </button>
+
+            <button 
+              onClick={() => setShowControls(true)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title="Keyboard and gamepad controls"
+            >
+              <Keyboard size={24} />
+            </button>
+
+            <button 
+              onClick={() => setMuted(m => !m)}
+              className="p-2 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+              title={muted ? "Unmute sounds" : "Mute sounds"}
+            >
+              {muted ? <VolumeX size={24} /> : <Volume2 size={24} />}
+            </button>
 
             <button 
               onClick={() => setShowInstructions(true)}
@@ -63,17 +387,87 @@ function App() {
 
       {/* Main Content Area - Flexible */}
       <div className="flex-1 relative w-full h-full flex items-center justify-center p-2 bg-slate-100/50">
-        <GameBoard 
-          key={difficulty} /* Forces full re-mount/reset when level changes */
-          blocks={blocks} 
-          setBlocks={setBlocks} 
-          moves={moves} 
-          setMoves={setMoves}
-          onWin={() => setHasWon(true)}
-          onReset={resetGame}
-        />
+        {view === 'editor' ? (
+          <LevelEditor initialLevel={game.level} onPlay={importLevel} />
+        ) : view === 'levels' ? (
+          <LevelSelect
+            packs={packs}
+            progress={progress}
+            currentLevelId={game.level.id}
+            onPlay={playPackLevel}
+            onLoadPack={loadPack}
+          />
+        ) : (
+          <GameBoard 
+            key={game.level.id} /* Forces full re-mount/reset when level changes */
+            game={game}
+            setGame={setGame}
+            onWin={handleWin}
+            onReset={resetGame}
+            par={par}
+            elapsedMs={elapsedMs}
+            keyBindings={keyBindings}
+            inputEnabled={!dialogOpen}
+            theme={theme}
+          />
+        )}
       </div>
 
+      {toast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 max-w-sm w-full px-4 animate-fade-in pointer-events-none">
+          <div className="bg-slate-800/90 text-white px-4 py-3 rounded-2xl text-sm backdrop-blur-md shadow-xl border border-slate-700 text-center break-all">
+            {toast}
+          </div>
+        </div>
+      )}
+
+      {/* Level Text Modal */}
+      {showNotation && (
+        <LevelNotationModal
+          level={game.level}
+          blocks={game.blocks}
+          onImport={importLevel}
+          onClose={() => setShowNotation(false)}
+        />
+      )}
+
+      {showAnalysis && (
+        <AnalysisModal
+          level={game.level}
+          metric={game.metric}
+          onPlayPosition={importLevel}
+          onClose={() => setShowAnalysis(false)}
+        />
+      )}
+
+      {showGenerator && (
+        <GeneratorModal
+          template={game.level}
+          metric={game.metric}
+          onPlay={importLevel}
+          onClose={() => setShowGenerator(false)}
+        />
+      )}
+
+      {showLeaderboard && hasLeaderboard && (
+        <LeaderboardModal
+          level={game.level}
+          metric={game.metric}
+          uid={user?.uid ?? null}
+          onSignIn={handleSignIn}
+          onClose={() => setShowLeaderboard(false)}
+        />
+      )}
+
+      {showDaily && (
+        <DailyModal
+          history={daily}
+          onPlay={playDaily}
+          onShare={shareDaily}
+          onClose={() => setShowDaily(false)}
+        />
+      )}
+
       {/* Instructions Modal */}
       {showInstructions && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
@@ -90,11 +484,11 @@ function App() {
                 <ul className="space-y-4 text-slate-600 mb-8">
                     <li className="flex gap-3 items-start">
                        <span className="font-bold text-amber-500 text-lg">1.</span>
-                       <span>Goal: Move the large <strong className="text-amber-600">KING</strong> to the bottom center exit.</span>
+                       <span>Goal: Move the large <strong className="text-amber-600">KING</strong> to the marked exit.</span>
                     </li>
                     <li className="flex gap-3 items-start">
                        <span className="font-bold text-amber-500 text-lg">2.</span>
-                       <span>Select <strong>Easy</strong>, <strong>Medium</strong>, or <strong>Hard</strong> from the menu.</span>
+                       <span>Pick a level from the <strong>level list</strong>. Solving one unlocks the next.</span>
                     </li>
                     <li className="flex gap-3 items-start">
                        <span className="font-bold text-amber-500 text-lg">3.</span>
@@ -102,7 +496,7 @@ function App() {
                     </li>
                     <li className="flex gap-3 items-start">
                        <span className="font-bold text-amber-500 text-lg">4.</span>
-                       <span>Use <strong>Hint</strong> or <strong>Undo</strong> if you get stuck!</span>
+                       <span>Use <strong>Hint</strong> or <strong>Undo</strong> if you get stuck! Finish at par without help for three stars.</span>
                     </li>
                 </ul>
                 <button 
@@ -116,30 +510,118 @@ function App() {
       )}
 
       {/* Victory Modal */}
-      {hasWon && (
+      {victory && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-md animate-fade-in">
             <div className="bg-white p-8 rounded-3xl max-w-sm w-full shadow-2xl text-center transform scale-100 animate-bounce-in">
                 <div className="w-20 h-20 bg-amber-100 text-amber-500 rounded-full flex items-center justify-center mx-auto mb-6">
                     <Trophy size={40} strokeWidth={2} />
                 </div>
                 <h2 className="text-3xl font-black text-slate-800 mb-2">Escaped!</h2>
+                <div className="flex justify-center gap-1 mb-3" title={`${victory.stars} of 3 stars`}>
+                    {[1, 2, 3].map(n => (
+                      <Star
+                        key={n}
+                        size={32}
+                        className={n <= victory.stars ? 'text-amber-400' : 'text-slate-200'}
+                        fill="currentColor"
+                      />
+                    ))}
+                </div>
+                <p className="text-slate-500 mb-2">
+                    Level: <strong className="text-amber-600">{game.level.name}</strong>
+                </p>
                 <p className="text-slate-500 mb-2">
-                    Level: <strong className="text-amber-600">{difficulty}</strong>
+                    Moves: <strong className="text-slate-800">{game.moves}</strong>
+                    {par !== null && <> / par <strong className="text-slate-800">{par}</strong></>}{' '}
+                    <span className="text-xs">({game.metric === MoveMetric.SLIDE ? 'slides' : 'steps'})</span>
                 </p>
-                <p className="text-slate-500 mb-6">
-                    Moves: <strong className="text-slate-800">{moves}</strong>
+                <p className={`text-slate-500 flex items-center justify-center gap-1 ${isAssisted(game) ? 'mb-3' : 'mb-6'}`}>
+                    <Clock size={16} /> <strong className="text-slate-800 font-mono">{formatDuration(victory.timeMs)}</strong>
                 </p>
+                {isAssisted(game) && (
+                  <p className="mb-6 inline-block px-3 py-1 rounded-full bg-slate-100 text-slate-500 text-xs font-bold">
+                      Assisted: {[
+                        game.hintsUsed > 0 && `${game.hintsUsed} hint${game.hintsUsed === 1 ? '' : 's'}`,
+                        game.autoMoves > 0 && 'auto-solve',
+                      ].filter(Boolean).join(', ')}
+                  </p>
+                )}
+                <div className="flex gap-2 mb-3">
+                    <button 
+                        onClick={() => setShowReplay(true)}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-slate-500 font-bold rounded-xl hover:bg-slate-100 transition"
+                    >
+                        <Film size={18} /> Watch replay
+                    </button>
+                    <button 
+                        onClick={() => setShowExport(true)}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-slate-500 font-bold rounded-xl hover:bg-slate-100 transition"
+                    >
+                        <Clapperboard size={18} /> Export
+                    </button>
+                </div>
                 <div className="flex gap-3">
                     <button 
                         onClick={resetGame}
-                        className="flex-1 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 shadow-lg shadow-amber-500/30 transition transform hover:-translate-y-1"
+                        className={`flex-1 py-3 font-bold rounded-xl transition transform hover:-translate-y-1 ${nextLevel || dailyKeyOf(game.level.id) ? 'bg-slate-200 text-slate-600 hover:bg-slate-300' : 'bg-amber-500 text-white hover:bg-amber-600 shadow-lg shadow-amber-500/30'}`}
                     >
                         Play Again
                     </button>
+                    {dailyKeyOf(game.level.id) && (
+                      <button 
+                          onClick={() => shareDaily(dailyKeyOf(game.level.id)!)}
+                          className="flex-1 flex items-center justify-center gap-1 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 shadow-lg shadow-amber-500/30 transition transform hover:-translate-y-1"
+                      >
+                          Share result <Share2 size={18} />
+                      </button>
+                    )}
+                    {nextLevel && (
+                      <button 
+                          onClick={() => playPackLevel(nextLevel.pack, nextLevel.index)}
+                          className="flex-1 flex items-center justify-center gap-1 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 shadow-lg shadow-amber-500/30 transition transform hover:-translate-y-1"
+                      >
+                          Next level <ChevronRight size={18} />
+                      </button>
+                    )}
                 </div>
             </div>
         </div>
       )}
+
+      {showReplay && (
+        <ReplayViewer
+          level={game.level}
+          moves={game.history}
+          theme={theme}
+          onClose={() => setShowReplay(false)}
+        />
+      )}
+
+      {showThemes && (
+        <ThemeModal
+          themeId={themeId}
+          level={game.level}
+          onChange={setThemeId}
+          onClose={() => setShowThemes(false)}
+        />
+      )}
+
+      {showControls && (
+        <KeyBindingsModal
+          bindings={keyBindings}
+          onChange={setKeyBindings}
+          onClose={() => setShowControls(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportModal
+          level={game.level}
+          moves={game.isWon ? game.history : null}
+          metric={game.metric}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 }
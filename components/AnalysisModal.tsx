@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { X, Network, Play } from 'lucide-react';
+import { Block, LevelDefinition, MoveMetric } from '../types';
+import { SearchProgress } from '../services/solver';
+import { StateSpaceReport } from '../services/analysis';
+import { analyzeAsync, isSolverCancelled } from '../services/solverClient';
+
+interface AnalysisModalProps {
+  level: LevelDefinition;
+  metric: MoveMetric;
+  onPlayPosition: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+// Full state-space report for the level's starting layout
+export const AnalysisModal: React.FC<AnalysisModalProps> = ({ level, metric, onPlayPosition, onClose }) => {
+  const [report, setReport] = useState<StateSpaceReport | null>(null);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const task = analyzeAsync(level, level.blocks, metric, setProgress);
+    task.promise.then(setReport).catch(err => {
+      if (isSolverCancelled(err)) return;
+      console.error("Error analyzing level:", err);
+      setError("The analysis failed.");
+    });
+    return () => task.cancel();
+  }, [level, metric]);
+
+  const unit = metric === MoveMetric.SLIDE ? 'slides' : 'steps';
+
+  const playFrom = (blocks: Block[], suffix: string) => {
+    onPlayPosition({ ...level, id: `custom-${Date.now()}`, name: `${level.name} (${suffix})`, blocks });
+  };
+
+  const stats: { label: string; value: string }[] = report ? [
+    { label: 'Reachable positions', value: report.reachableStates.toLocaleString() },
+    { label: 'Winning positions', value: report.winningStates.toLocaleString() },
+    { label: 'Optimal solution', value: report.optimalLength === null ? 'Unsolvable' : `${report.optimalLength} ${unit}` },
+    { label: 'Farthest from goal', value: report.farthestDistance === null ? '–' : `${report.farthestDistance} ${unit}` },
+    { label: 'Moves per position', value: report.branching.toFixed(1) },
+    { label: 'Dead ends', value: report.deadEnds.toLocaleString() },
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Network className="text-amber-500" /> Level Analysis
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              Every position reachable from the start of <strong>{level.name}</strong>, counted in {unit}.
+            </p>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!report && !error && (
+              <div className="py-6 text-center text-sm text-slate-500">
+                <span className="animate-spin inline-block mr-2">⏳</span>
+                Exploring... {progress ? `${progress.explored.toLocaleString()} positions (depth ${progress.depth})` : ''}
+              </div>
+            )}
+
+            {report && (
+              <>
+                <dl className="grid grid-cols-2 gap-2">
+                  {stats.map(({ label, value }) => (
+                    <div key={label} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2">
+                      <dt className="text-[10px] text-slate-400 font-bold uppercase">{label}</dt>
+                      <dd className="text-lg font-bold text-slate-700 font-mono">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+                {report.mirrored && (
+                  <p className="mt-3 text-xs text-slate-400">
+                    The level is left-right symmetric, so mirror-image positions are counted once.
+                  </p>
+                )}
+                <div className="flex gap-3 mt-4">
+                    <button
+                        onClick={() => report.farthestPosition && playFrom(report.farthestPosition, 'farthest')}
+                        disabled={!report.farthestPosition}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-500/20 disabled:opacity-50"
+                    >
+                        <Play size={18} /> Play farthest
+                    </button>
+                    <button
+                        onClick={() => playFrom(report.deadEndSamples[0], 'dead end')}
+                        disabled={report.deadEndSamples.length === 0}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-slate-200 text-slate-600 font-bold rounded-xl hover:bg-slate-300 transition disabled:opacity-50"
+                    >
+                        <Play size={18} /> Play a dead end
+                    </button>
+                </div>
+              </>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -1,107 +1,116 @@
-import React, { useRef, forwardRef } from 'react';
+import React, { useRef, useState, forwardRef } from 'react';
 import { Block, BlockType, Direction } from '../types';
-import { Crown, Shield, Sword, User, ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
+import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
 import { audioService } from '../services/audioService';
+import { SlideTarget, getCellOffsets, isMaskCellFilled } from '../services/engine';
+import { DEFAULT_THEME, Theme, blockLabel } from '../themes';
 
+// Pixels a pointer travels before a press becomes a drag, and before a drag
+// released short of the next cell still counts as a flick towards it
+const DRAG_THRESHOLD = 10;
+const SWIPE_THRESHOLD = 20;
 
 interface BlockProps extends React.HTMLAttributes<HTMLDivElement> {
   block: Block;
   isSelected: boolean;
   hintDirection?: Direction | null;
   onClick: (id: string) => void;
-  onSwipe: (id: string, direction: Direction) => void;
+  // Dragging is on when both are given: where the block may go, and the route
+  // to the position it is dropped on
+  getSlideTargets?: (id: string) => SlideTarget[];
+  onSlide?: (id: string, path: Direction[]) => void;
   unitSize: number;
   gap: number;
+  theme?: Theme;
 }
 
+// Icon size per piece, in pixels
+const ICON_SIZES: Record<BlockType, number> = {
+  [BlockType.KING]: 48,
+  [BlockType.HORIZONTAL]: 32,
+  [BlockType.VERTICAL]: 32,
+  [BlockType.PAWN]: 24,
+  [BlockType.SHAPE]: 28,
+};
+
 export const BlockComponent = forwardRef<HTMLDivElement, BlockProps>(
-  ({ block, isSelected, hintDirection, onClick, onSwipe, unitSize, gap, tabIndex = -1, onKeyDown, onFocus, ...rest }, ref) => {
-  const touchStart = useRef<{x: number, y: number} | null>(null);
-  const mouseStart = useRef<{x: number, y: number} | null>(null);
-  const dragging = useRef<boolean>(false);
+  ({ block, isSelected, hintDirection, onClick, getSlideTargets, onSlide, unitSize, gap, theme = DEFAULT_THEME, tabIndex = -1, onKeyDown, onFocus, ...rest }, ref) => {
+  const drag = useRef<{
+    pointerId: number;
+    startX: number;
+    startY: number;
+    targets: SlideTarget[];
+    nearest: SlideTarget;
+    moved: boolean;
+  } | null>(null);
+  // Where the block is drawn while dragged, in fractional cells
+  const [dragPos, setDragPos] = useState<{ x: number; y: number } | null>(null);
+  // A drag that ends over the block still fires a click; that one is not a tap
+  const suppressClick = useRef(false);
 
-  const handleTouchStart = (e: React.TouchEvent) => {
-    touchStart.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
-  };
+  const step = unitSize + gap;
 
-  const handleTouchEnd = (e: React.TouchEvent) => {
-    if (!touchStart.current) return;
-    
-    const endX = e.changedTouches[0].clientX;
-    const endY = e.changedTouches[0].clientY;
-    const dx = endX - touchStart.current.x;
-    const dy = endY - touchStart.current.y;
-    
-    // Threshold to distinguish tap from swipe (10px)
-    if (Math.abs(dx) > 10 || Math.abs(dy) > 10) {
-        // Prevent click trigger if it was a swipe
-        e.stopPropagation(); 
-        
-        if (Math.abs(dx) > Math.abs(dy)) {
-            onSwipe(block.id, dx > 0 ? Direction.RIGHT : Direction.LEFT);
-        } else {
-            onSwipe(block.id, dy > 0 ? Direction.DOWN : Direction.UP);
-        }
-    }
-    touchStart.current = null;
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    suppressClick.current = false;
+    if (!getSlideTargets || !onSlide || (e.pointerType === 'mouse' && e.button !== 0)) return;
+    const targets = getSlideTargets(block.id);
+    if (targets.length <= 1) return;
+    (e.target as Element).setPointerCapture(e.pointerId);
+    drag.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, targets, nearest: targets[0], moved: false };
   };
 
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    if (!d || d.pointerId !== e.pointerId) return;
+    const dx = e.clientX - d.startX;
+    const dy = e.clientY - d.startY;
+    if (!d.moved && Math.abs(dx) <= DRAG_THRESHOLD && Math.abs(dy) <= DRAG_THRESHOLD) return;
+    d.moved = true;
 
-  // Mouse drag logic for desktop
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (e.button !== 0) return; // Only left click
-    mouseStart.current = { x: e.clientX, y: e.clientY };
-    dragging.current = false;
-    window.addEventListener('mousemove', handleMouseMove);
-    window.addEventListener('mouseup', handleMouseUpWindow);
+    // Snap to the reachable position nearest the pointer, then lean towards
+    // the pointer along one axis if the next cell that way is reachable too
+    const fx = block.x + dx / step;
+    const fy = block.y + dy / step;
+    const distance = (t: SlideTarget) => (t.x - fx) ** 2 + (t.y - fy) ** 2;
+    d.nearest = d.targets.reduce((best, t) => distance(t) < distance(best) ? t : best);
+    const { x, y } = d.nearest;
+    const ox = fx - x;
+    const oy = fy - y;
+    const horizontal = Math.abs(ox) >= Math.abs(oy);
+    const lean = horizontal ? ox : oy;
+    const nx = horizontal ? x + Math.sign(lean) : x;
+    const ny = horizontal ? y : y + Math.sign(lean);
+    const offset = d.targets.some(t => t.x === nx && t.y === ny) ? Math.max(-0.5, Math.min(0.5, lean)) : 0;
+    setDragPos(horizontal ? { x: x + offset, y } : { x, y: y + offset });
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
-    if (!mouseStart.current) return;
-    const dx = e.clientX - mouseStart.current.x;
-    const dy = e.clientY - mouseStart.current.y;
-    if (!dragging.current && (Math.abs(dx) > 10 || Math.abs(dy) > 10)) {
-      dragging.current = true;
-    }
-    if (dragging.current) {
-      // Only trigger on direction change
-      if (Math.abs(dx) > Math.abs(dy)) {
-        if (dx > 20) {
-          onSwipe(block.id, Direction.RIGHT);
-          cleanupDrag();
-        } else if (dx < -20) {
-          onSwipe(block.id, Direction.LEFT);
-          cleanupDrag();
-        }
-      } else {
-        if (dy > 20) {
-          onSwipe(block.id, Direction.DOWN);
-          cleanupDrag();
-        } else if (dy < -20) {
-          onSwipe(block.id, Direction.UP);
-          cleanupDrag();
-        }
-      }
-    }
-  };
+  const endDrag = (e: React.PointerEvent<HTMLDivElement>, commit: boolean) => {
+    const d = drag.current;
+    if (!d || d.pointerId !== e.pointerId) return;
+    drag.current = null;
+    setDragPos(null);
+    if (!commit || !d.moved) return;
+    suppressClick.current = true;
 
-  const handleMouseUpWindow = () => {
-    cleanupDrag();
-  };
-
-  const handleMouseUp = () => {
-    cleanupDrag();
-  };
-
-  const cleanupDrag = () => {
-    mouseStart.current = null;
-    dragging.current = false;
-    window.removeEventListener('mousemove', handleMouseMove);
-    window.removeEventListener('mouseup', handleMouseUpWindow);
+    // A quick flick that ends short of the next cell still moves one cell
+    let target = d.nearest;
+    const dx = e.clientX - d.startX;
+    const dy = e.clientY - d.startY;
+    if (target.path.length === 0 && Math.max(Math.abs(dx), Math.abs(dy)) > SWIPE_THRESHOLD) {
+      const direction = Math.abs(dx) > Math.abs(dy)
+        ? (dx > 0 ? Direction.RIGHT : Direction.LEFT)
+        : (dy > 0 ? Direction.DOWN : Direction.UP);
+      target = d.targets.find(t => t.path.length === 1 && t.path[0] === direction) ?? target;
+    }
+    if (target.path.length) onSlide!(block.id, target.path);
   };
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
     if (!isSelected) {
       audioService.playSelect();
     }
@@ -117,39 +126,72 @@ export const BlockComponent = forwardRef<HTMLDivElement, BlockProps>(
     }
   };
 
+  const skin = theme.blocks[block.type];
+  const label = blockLabel(theme, block);
+
   const getStyles = () => {
-    const base = "absolute rounded-xl flex flex-col items-center justify-center shadow-lg transition-all duration-300 border-b-4 active:border-b-0 active:translate-y-1 cursor-pointer select-none touch-none";
+    // Masked blocks draw their cells individually, so the bounding box itself
+    // stays transparent and only the cells receive pointer events.
+    const base = block.mask
+      ? "absolute transition-all duration-300 cursor-pointer select-none touch-none pointer-events-none"
+      : "absolute rounded-xl flex flex-col items-center justify-center shadow-lg transition-all duration-300 border-b-4 active:border-b-0 active:translate-y-1 cursor-pointer select-none touch-none";
     
     // Highlighting logic
     let ring = "z-0";
     if (isSelected) {
-        ring = "ring-4 ring-white ring-opacity-70 scale-[1.02] z-10";
+        ring = block.mask
+          ? "drop-shadow-[0_0_6px_rgba(255,255,255,0.9)] z-10"
+          : "ring-4 ring-white ring-opacity-70 scale-[1.02] z-10";
     } else if (hintDirection) {
         // Removed scale-[1.02] to avoid transform conflict with CSS animation
-        ring = "ring-4 ring-amber-400 ring-opacity-90 z-20 shadow-amber-500/50";
+        ring = block.mask
+          ? "drop-shadow-[0_0_6px_rgba(251,191,36,0.9)] z-20"
+          : "ring-4 ring-amber-400 ring-opacity-90 z-20 shadow-amber-500/50";
     }
     
-    switch (block.type) {
-      case BlockType.KING:
-        return `${base} ${ring} bg-amber-500 border-amber-700 text-white`;
-      case BlockType.HORIZONTAL:
-        return `${base} ${ring} bg-emerald-500 border-emerald-700 text-white`;
-      case BlockType.VERTICAL:
-        return `${base} ${ring} bg-blue-500 border-blue-700 text-white`;
-      case BlockType.PAWN:
-        return `${base} ${ring} bg-slate-400 border-slate-600 text-white`;
-      default:
-        return base;
-    }
+    return block.mask ? `${base} ${ring}` : `${base} ${ring} ${skin.colors}`;
   };
 
   const getIcon = () => {
-    switch (block.type) {
-      case BlockType.KING: return <Crown size={48} strokeWidth={1.5} />;
-      case BlockType.HORIZONTAL: return <Sword size={32} className="rotate-90" strokeWidth={1.5} />;
-      case BlockType.VERTICAL: return <Shield size={32} strokeWidth={1.5} />;
-      case BlockType.PAWN: return <User size={24} strokeWidth={1.5} />;
-    }
+    const Icon = skin.icon;
+    return <Icon size={ICON_SIZES[block.type]} className={skin.iconClassName} strokeWidth={1.5} />;
+  };
+
+  // Irregular blocks: one div per filled cell, stretched across the gap towards
+  // filled neighbours so the piece reads as a single outline.
+  const renderMaskCells = () => {
+    const radius = 12;
+    return getCellOffsets(block).map(({ dx, dy }, i) => {
+      const up = isMaskCellFilled(block, dx, dy - 1);
+      const down = isMaskCellFilled(block, dx, dy + 1);
+      const leftN = isMaskCellFilled(block, dx - 1, dy);
+      const rightN = isMaskCellFilled(block, dx + 1, dy);
+      return (
+        <div
+          key={`${dx},${dy}`}
+          className={`absolute flex flex-col items-center justify-center shadow-lg pointer-events-auto ${down ? '' : 'border-b-4'} ${skin.colors}`}
+          style={{
+            left: dx * step,
+            top: dy * step,
+            width: unitSize + (rightN ? gap : 0),
+            height: unitSize + (down ? gap : 0),
+            borderTopLeftRadius: up || leftN ? 0 : radius,
+            borderTopRightRadius: up || rightN ? 0 : radius,
+            borderBottomLeftRadius: down || leftN ? 0 : radius,
+            borderBottomRightRadius: down || rightN ? 0 : radius,
+          }}
+        >
+          {i === 0 && (
+            <>
+              {getIcon()}
+              <span className="text-[10px] font-bold mt-0.5 tracking-wider opacity-90 uppercase">
+                {label}
+              </span>
+            </>
+          )}
+        </div>
+      );
+    });
   };
 
   const renderHintArrow = () => {
@@ -158,7 +200,7 @@ export const BlockComponent = forwardRef<HTMLDivElement, BlockProps>(
       const arrowProps = { size: 40, className: "text-white drop-shadow-lg filter drop-shadow-black animate-pulse", strokeWidth: 3 };
       
       return (
-          <div className="absolute inset-0 flex items-center justify-center z-30 pointer-events-none bg-black/20 rounded-xl">
+          <div className={`absolute inset-0 flex items-center justify-center z-30 pointer-events-none rounded-xl ${block.mask ? '' : 'bg-black/20'}`}>
              {hintDirection === Direction.UP && <ArrowUp {...arrowProps} className="animate-bounce mb-4" />}
              {hintDirection === Direction.DOWN && <ArrowDown {...arrowProps} className="animate-bounce mt-4" />}
              {hintDirection === Direction.LEFT && <ArrowLeft {...arrowProps} className="animate-pulse mr-4" />}
@@ -178,8 +220,8 @@ export const BlockComponent = forwardRef<HTMLDivElement, BlockProps>(
     }
   };
 
-  const left = block.x * unitSize + block.x * gap;
-  const top = block.y * unitSize + block.y * gap;
+  const left = (dragPos?.x ?? block.x) * step;
+  const top = (dragPos?.y ?? block.y) * step;
   const width = block.width * unitSize + (block.width - 1) * gap;
   const height = block.height * unitSize + (block.height - 1) * gap;
 
@@ -190,25 +232,31 @@ export const BlockComponent = forwardRef<HTMLDivElement, BlockProps>(
       onKeyDown={handleKeyDownBlock}
       onFocus={onFocus}
       onClick={handleClick}
-      onTouchStart={handleTouchStart}
-      onTouchEnd={handleTouchEnd}
-      onMouseDown={handleMouseDown}
-      onMouseUp={handleMouseUp}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={e => endDrag(e, true)}
+      onPointerCancel={e => endDrag(e, false)}
       className={getStyles()}
       style={{
         left: `${left}px`,
         top: `${top}px`,
         width: `${width}px`,
         height: `${height}px`,
-        ...getAnimation()
+        ...getAnimation(),
+        // Follow the pointer directly, above the other blocks
+        ...(dragPos && { transition: 'none', zIndex: 40 })
       }}
       {...rest}
     >
-      {getIcon()}
-      {block.type !== BlockType.PAWN && (
-        <span className="text-xs font-bold mt-1 tracking-wider opacity-90 uppercase">
-            {block.label}
-        </span>
+      {block.mask ? renderMaskCells() : (
+        <>
+          {getIcon()}
+          {block.type !== BlockType.PAWN && (
+            <span className="text-xs font-bold mt-1 tracking-wider opacity-90 uppercase">
+                {label}
+            </span>
+          )}
+        </>
       )}
       {renderHintArrow()}
     </div>
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { X, CalendarDays, Play, Flame, Share2 } from 'lucide-react';
+import { LevelDefinition, MoveMetric } from '../types';
+import { GeneratorProgress } from '../services/generator';
+import { isSolverCancelled } from '../services/solverClient';
+import { DailyHistory, currentStreak, dailyKey, generateDaily, longestStreak } from '../services/daily';
+import { formatDuration } from '../services/stopwatch';
+
+interface DailyModalProps {
+  history: DailyHistory;
+  onPlay: (level: LevelDefinition) => void;
+  onShare: (key: string) => void;
+  onClose: () => void;
+}
+
+// Today's puzzle, the player's streak and, once played, today's result
+export const DailyModal: React.FC<DailyModalProps> = ({ history, onPlay, onShare, onClose }) => {
+  const [today] = useState(() => dailyKey());
+  const [level, setLevel] = useState<LevelDefinition | null>(null);
+  const [progress, setProgress] = useState<GeneratorProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const task = generateDaily(today, setProgress);
+    task.promise.then(puzzle => {
+      if (puzzle) setLevel(puzzle.level);
+      else setError("Today's puzzle could not be built.");
+    }).catch(err => {
+      if (isSolverCancelled(err)) return;
+      console.error("Error generating daily puzzle:", err);
+      setError("Today's puzzle could not be built.");
+    });
+    return () => task.cancel();
+  }, [today]);
+
+  const record = history[today];
+  const stats = [
+    { label: 'Streak', value: currentStreak(history, today) },
+    { label: 'Best streak', value: longestStreak(history) },
+    { label: 'Played', value: Object.keys(history).length },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <CalendarDays className="text-amber-500" /> Daily Challenge
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              One new puzzle every day, the same for everyone. Your first finish of <strong>{today}</strong> is the one that counts.
+            </p>
+
+            <dl className="grid grid-cols-3 gap-2">
+              {stats.map(({ label, value }) => (
+                <div key={label} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2">
+                  <dt className="text-[10px] text-slate-400 font-bold uppercase">{label}</dt>
+                  <dd className="text-lg font-bold text-slate-700 font-mono flex items-center gap-1">
+                    {value}{label === 'Streak' && value > 0 && <Flame size={16} className="text-orange-500" />}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            {record && (
+              <div className="mt-4 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 text-sm text-slate-600">
+                <div className="font-bold text-slate-800">Today: {'⭐'.repeat(record.stars)}{'☆'.repeat(3 - record.stars)}</div>
+                <div>
+                  {record.moves} {record.metric === MoveMetric.SLIDE ? 'slides' : 'steps'}{record.par !== null && ` (par ${record.par})`} in {formatDuration(record.timeMs)}
+                  {record.assisted ? ', assisted' : ''}
+                </div>
+              </div>
+            )}
+
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+            <div className="flex gap-3 mt-4">
+                {record && (
+                  <button
+                      onClick={() => onShare(today)}
+                      className="flex-1 flex items-center justify-center gap-2 py-3 bg-slate-200 text-slate-600 font-bold rounded-xl hover:bg-slate-300 transition"
+                  >
+                      <Share2 size={18} /> Share result
+                  </button>
+                )}
+                <button
+                    onClick={() => level && onPlay(level)}
+                    disabled={!level}
+                    className="flex-1 flex items-center justify-center gap-2 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-500/20 disabled:opacity-50"
+                >
+                    {level ? <><Play size={18} /> {record ? 'Play again' : 'Play'}</>
+                      : <><span className="animate-spin inline-block">⏳</span> Building{progress ? ` (${progress.attempts})` : ''}...</>}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
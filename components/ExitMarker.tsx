@@ -0,0 +1,45 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Direction, ExitPosition } from '../types';
+import { DEFAULT_THEME, Theme } from '../themes';
+
+interface ExitMarkerProps {
+  exit: ExitPosition;
+  unitSize: number;
+  gap: number;
+  theme?: Theme;
+}
+
+// Padding between the board frame and the first cell
+const BOARD_PADDING = 12;
+
+// Marker next to the opening described by the level, outside the board frame
+export const ExitMarker: React.FC<ExitMarkerProps> = ({ exit, unitSize, gap, theme = DEFAULT_THEME }) => {
+  const { side, offset, length } = exit;
+  const start = BOARD_PADDING + offset * (unitSize + gap);
+  const span = length * unitSize + (length - 1) * gap;
+  const horizontal = side === Direction.UP || side === Direction.DOWN;
+  const style: React.CSSProperties = horizontal
+    ? { left: start, width: span, [side === Direction.DOWN ? 'bottom' : 'top']: -32 }
+    : { top: start, height: span, [side === Direction.RIGHT ? 'right' : 'left']: -32 };
+  // Label sits on the board side, arrow points away from it
+  const reversed = side === Direction.UP || side === Direction.LEFT;
+  const flexDirection = horizontal
+    ? (reversed ? 'flex-col-reverse' : 'flex-col')
+    : (reversed ? 'flex-row-reverse' : 'flex-row');
+  const arrowProps = { size: 16 };
+  const arrow = side === Direction.UP ? <ArrowUp {...arrowProps} />
+    : side === Direction.DOWN ? <ArrowDown {...arrowProps} />
+    : side === Direction.LEFT ? <ArrowLeft {...arrowProps} />
+    : <ArrowRight {...arrowProps} />;
+
+  return (
+    <div
+      className={`absolute flex ${flexDirection} items-center justify-center pointer-events-none ${theme.exit}`}
+      style={style}
+    >
+      <div className={`text-[10px] font-bold tracking-[0.2em] ${horizontal ? 'mb-0.5' : '[writing-mode:vertical-rl] mr-0.5'}`}>EXIT</div>
+      {arrow}
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { X, Clapperboard, Copy, Check, Download } from 'lucide-react';
+import { LevelDefinition, Move, MoveMetric } from '../types';
+import { countMoves } from '../services/engine';
+import { isSolverCancelled, solveAsync } from '../services/solverClient';
+import { canExportWebm, exportGif, exportWebm, formatMoveList } from '../services/solutionExport';
+
+interface ExportModalProps {
+  level: LevelDefinition;
+  moves: Move[] | null; // The player's winning moves, if there are any
+  metric: MoveMetric;
+  onClose: () => void;
+}
+
+type Source = 'played' | 'optimal';
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+const fileStem = (level: LevelDefinition, source: Source) =>
+  `${level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'level'}-${source}`;
+
+// Save a solution as an animated GIF, a WebM video or a move list
+export const ExportModal: React.FC<ExportModalProps> = ({ level, moves, metric, onClose }) => {
+  const [source, setSource] = useState<Source>(moves ? 'played' : 'optimal');
+  const [optimal, setOptimal] = useState<Move[] | null>(null);
+  const [gif, setGif] = useState<{ blob: Blob; url: string } | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (source !== 'optimal' || optimal) return;
+    const task = solveAsync(level, level.blocks, metric);
+    task.promise.then(path => {
+      if (!path) {
+        setError("This level has no solution.");
+        return;
+      }
+      setOptimal(path.map(m => ({ blockId: level.blocks[m.blockIndex].id, direction: m.direction })));
+    }).catch(err => {
+      if (isSolverCancelled(err)) return;
+      console.error("Error solving level:", err);
+      setError("The solver failed.");
+    });
+    return () => task.cancel();
+  }, [level, metric, source, optimal]);
+
+  const selected = source === 'played' ? moves : optimal;
+
+  // Encoding blocks the page briefly, so let the spinner paint first
+  useEffect(() => {
+    setGif(null);
+    if (!selected) return;
+    let url: string | null = null;
+    const timer = setTimeout(() => {
+      const blob = exportGif(level, selected);
+      url = URL.createObjectURL(blob);
+      setGif({ blob, url });
+    }, 50);
+    return () => {
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [level, selected]);
+
+  const moveList = selected ? formatMoveList(selected, metric) : '';
+  const unit = metric === MoveMetric.SLIDE ? 'slides' : 'steps';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(moveList);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Error copying moves:", err);
+    }
+  };
+
+  const handleWebm = async () => {
+    if (!selected) return;
+    setIsRecording(true);
+    try {
+      download(await exportWebm(level, selected), `${fileStem(level, source)}.webm`);
+    } catch (err) {
+      console.error("Error recording video:", err);
+      setError("Recording the video failed.");
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const tab = (value: Source, label: string, disabled = false) => (
+    <button
+      onClick={() => { setSource(value); setError(null); }}
+      disabled={disabled}
+      className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors disabled:opacity-40 ${source === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative max-h-full overflow-auto">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Clapperboard className="text-amber-500" /> Export Solution
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              <strong>{level.name}</strong> played from the start, as an animation or a move list.
+            </p>
+
+            <div className="flex gap-1 p-1 mb-4 bg-slate-100 rounded-xl">
+              {tab('played', 'Your moves', !moves)}
+              {tab('optimal', 'Optimal solution')}
+            </div>
+
+            {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+            {!error && (!selected || !gif) && (
+              <div className="py-6 text-center text-sm text-slate-500">
+                <span className="animate-spin inline-block mr-2">⏳</span>
+                {selected ? 'Rendering...' : 'Solving...'}
+              </div>
+            )}
+
+            {selected && gif && (
+              <>
+                <img src={gif.url} alt={`Animated solution of ${level.name}`} className="mx-auto mb-3 rounded-lg max-h-72" />
+                <div className="flex items-center justify-between mb-1 text-xs font-bold text-slate-400 uppercase">
+                  <span>{countMoves(selected, metric)} {unit}</span>
+                  <button onClick={handleCopy} className="flex items-center gap-1 hover:text-slate-600">
+                    {copied ? <Check size={14} /> : <Copy size={14} />} {copied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+                <textarea
+                  value={moveList}
+                  readOnly
+                  rows={3}
+                  className="w-full font-mono text-sm bg-slate-50 border border-slate-200 rounded-xl p-3 outline-none resize-none"
+                />
+                <div className="flex gap-3 mt-3">
+                    <button
+                        onClick={() => download(gif.blob, `${fileStem(level, source)}.gif`)}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-500/20"
+                    >
+                        <Download size={18} /> GIF
+                    </button>
+                    <button
+                        onClick={handleWebm}
+                        disabled={!canExportWebm() || isRecording}
+                        title={canExportWebm() ? undefined : "This browser cannot record video"}
+                        className="flex-1 flex items-center justify-center gap-2 py-3 bg-slate-200 text-slate-600 font-bold rounded-xl hover:bg-slate-300 transition disabled:opacity-50"
+                    >
+                        <Download size={18} /> {isRecording ? 'Recording...' : 'WebM'}
+                    </button>
+                </div>
+              </>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -1,32 +1,51 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Block, BlockType, Direction } from '../types';
-import { GRID_WIDTH, GRID_HEIGHT, WIN_COORDS } from '../constants';
+import React, { useState, useEffect, useCallback, useId, useMemo, useRef } from 'react';
+import { Direction, GameState, Move, MoveMetric } from '../types';
 import { BlockComponent } from './BlockComponent';
-import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, RotateCcw, Play, Undo2, Lightbulb } from 'lucide-react';
-import { findSolution } from '../services/solver';
+import { HistoryTimeline, TIMELINE_HEIGHT } from './HistoryTimeline';
+import { ExitMarker } from './ExitMarker';
+import { SlideGhost } from './SlideGhost';
+import { Theme } from '../themes';
+import { ScanText, RotateCcw, Play, Undo2, Redo2, Lightbulb, Clock, GitBranch, Pause } from 'lucide-react';
+import { SearchProgress } from '../services/solver';
+import { SolveTask, isSolverCancelled, solveAsync } from '../services/solverClient';
+import { DIRECTION_DELTAS, SlideTarget, applySlide, countMoves, jumpTo, slideTargets, undoSlide, withMetric } from '../services/engine';
+import { redoMoves } from '../services/historyTree';
+import { blockAt, blockName, describeBoard, describeCell, describeMove, describePath, directionWord } from '../services/boardDescription';
 import { audioService } from '../services/audioService';
+import { formatDuration } from '../services/stopwatch';
+import { MovePlayer, PLAYBACK_SPEEDS } from '../services/movePlayer';
+import { GamepadReader, InputAction, KeyBindings, MOVE_ACTIONS, createKeyHandler } from '../services/inputMap';
 
 
 interface GameBoardProps {
-  blocks: Block[];
-  setBlocks: React.Dispatch<React.SetStateAction<Block[]>>;
-  moves: number;
-  setMoves: React.Dispatch<React.SetStateAction<number>>;
-  onWin: () => void;
+  game: GameState;
+  setGame: React.Dispatch<React.SetStateAction<GameState>>;
+  onWin: (game: GameState) => void;
   onReset: () => void;
+  par: number | null; // null while unknown
+  elapsedMs: () => number;
+  keyBindings: KeyBindings;
+  inputEnabled: boolean; // False while a dialog covers the board
+  theme: Theme;
 }
 
-export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves, setMoves, onWin, onReset }) => {
-  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
-  const [history, setHistory] = useState<{blocks: Block[], moves: number}[]>([]);
+export const GameBoard: React.FC<GameBoardProps> = ({ game, setGame, onWin, onReset, par, elapsedMs, keyBindings, inputEnabled, theme }) => {
+  const { level, blocks, moves, selectedBlockId, history, metric } = game;
   
   // Auto-solve (computer move) state
   const [isSolving, setIsSolving] = useState(false);
   const [isPlayingAuto, setIsPlayingAuto] = useState(false);
   const [autoSteps, setAutoSteps] = useState(1);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [autoMessage, setAutoMessage] = useState<string | null>(null);
   const [isPlayingHint, setIsPlayingHint] = useState(false);
   const [hintData, setHintData] = useState<{ blockId: string; direction: Direction; message: string } | null>(null);
+  const [showTimeline, setShowTimeline] = useState(false);
+  // Screen-reader announcement; `count` makes a repeated message read again
+  const [announcement, setAnnouncement] = useState({ text: '', count: 0 });
+  // Keyboard cursor on the board grid
+  const [cursor, setCursor] = useState({ x: 0, y: 0 });
+  const [gridFocused, setGridFocused] = useState(false);
 
   // Responsive sizing
   const containerRef = useRef<HTMLDivElement>(null);
@@ -34,14 +53,52 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
   const gap = 10; 
 
   // Refs for access inside intervals/callbacks
-  const blocksRef = useRef(blocks);
-  const movesRef = useRef(moves);
+  const gameRef = useRef(game);
   const hintTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const solveTaskRef = useRef<SolveTask | null>(null);
+  const autoPlayerRef = useRef<MovePlayer | null>(null);
   
   useEffect(() => {
-    blocksRef.current = blocks;
-    movesRef.current = moves;
-  }, [blocks, moves]);
+    gameRef.current = game;
+  }, [game]);
+
+  // Redraw the clock once a second; the time itself comes from the parent
+  const [, setClockTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setClockTick(t => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const setSelectedBlockId = useCallback((id: string | null) => {
+    setGame(g => ({ ...g, selectedBlockId: id }));
+  }, [setGame]);
+
+  const announce = useCallback((text: string) => {
+    setAnnouncement(a => ({ text, count: a.count + 1 }));
+  }, []);
+
+  // Run a slide (often a single move) through the engine and commit it as
+  // one history entry. Returns false if any of it was illegal.
+  const commitSlide = useCallback((moves: Move[], byComputer = false): boolean => {
+    const applied = applySlide(gameRef.current, moves);
+    if (!applied) return false;
+    const next = byComputer ? { ...applied, autoMoves: applied.autoMoves + moves.length } : applied;
+
+    audioService.playMove();
+    gameRef.current = next;
+    setGame(next);
+
+    const block = next.blocks.find(b => b.id === moves[0].blockId)!;
+    const moved = `${byComputer ? 'Computer: ' : ''}${describeMove(block, next.blocks, theme, moves.map(m => m.direction), next.moves)}. `;
+    if (next.isWon) {
+      audioService.playWin();
+      announce(`${moved}Solved in ${next.moves} moves!`);
+      setTimeout(() => onWin(next), 300);
+    } else {
+      announce(moved);
+    }
+    return true;
+  }, [setGame, onWin, announce, theme]);
 
   // Resize Observer
   useEffect(() => {
@@ -52,12 +109,12 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
       const { clientWidth, clientHeight } = containerRef.current;
       
       const padding = 32; 
-      const controlsHeight = 160; 
+      const controlsHeight = 160 + (showTimeline ? TIMELINE_HEIGHT + 16 : 0);
       const availableHeight = clientHeight - controlsHeight - padding;
       const availableWidth = clientWidth - padding;
 
-      const maxUnitW = (availableWidth - (GRID_WIDTH - 1) * gap) / GRID_WIDTH;
-      const maxUnitH = (availableHeight - (GRID_HEIGHT - 1) * gap) / GRID_HEIGHT;
+      const maxUnitW = (availableWidth - (level.width - 1) * gap) / level.width;
+      const maxUnitH = (availableHeight - (level.height - 1) * gap) / level.height;
 
       setUnitSize(Math.floor(Math.min(maxUnitW, maxUnitH)));
     };
@@ -67,20 +124,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
     updateSize();
 
     return () => resizeObserver.disconnect();
-  }, []);
-
-  const getOccupiedCells = useCallback((currentBlocks: Block[], excludeId?: string) => {
-    const occupied = new Set<string>();
-    currentBlocks.forEach(b => {
-      if (b.id === excludeId) return;
-      for (let dx = 0; dx < b.width; dx++) {
-        for (let dy = 0; dy < b.height; dy++) {
-          occupied.add(`${b.x + dx},${b.y + dy}`);
-        }
-      }
-    });
-    return occupied;
-  }, []);
+  }, [level.width, level.height, showTimeline]);
 
   const clearHintTimeout = useCallback(() => {
     if (hintTimeoutRef.current) {
@@ -95,148 +139,152 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
     setIsPlayingHint(false);
   }, [clearHintTimeout]);
 
+  // Abandon a running search; its position is no longer on the board
+  const cancelSolve = useCallback(() => {
+    if (!solveTaskRef.current) return;
+    solveTaskRef.current.cancel();
+    solveTaskRef.current = null;
+    setIsSolving(false);
+  }, []);
+
+  // Start a search from the current position, replacing any search in flight
+  const startSolve = useCallback((label: string) => {
+    cancelSolve();
+    const current = gameRef.current;
+    const onProgress = ({ explored, depth }: SearchProgress) => {
+      setAutoMessage(`${label} ${explored.toLocaleString()} positions checked (depth ${depth})`);
+    };
+    const task = solveAsync(current.level, current.blocks, current.metric, onProgress);
+    solveTaskRef.current = task;
+    setIsSolving(true);
+    return task.promise.finally(() => {
+      if (solveTaskRef.current === task) {
+        solveTaskRef.current = null;
+        setIsSolving(false);
+      }
+    });
+  }, [cancelSolve]);
+
   useEffect(() => {
-    return () => clearHintTimeout();
+    return () => {
+      clearHintTimeout();
+      solveTaskRef.current?.cancel();
+      autoPlayerRef.current?.pause();
+    };
   }, [clearHintTimeout]);
 
-  const directionToText = useCallback((dir: Direction) => {
-    switch (dir) {
-      case Direction.UP: return 'up';
-      case Direction.DOWN: return 'down';
-      case Direction.LEFT: return 'left';
-      case Direction.RIGHT: return 'right';
-      default: return '';
+  const handleUndo = () => {
+    if (isPlayingAuto) return;
+    const current = gameRef.current;
+    if (current.history.length === 0) return;
+    cancelSolve();
+    audioService.playUndo();
+    const next = undoSlide(current);
+    gameRef.current = next;
+    setGame(next);
+    const undone = current.history.slice(next.history.length);
+    const block = next.blocks.find(b => b.id === undone[0].blockId)!;
+    announce(`Undid ${blockName(block, next.blocks, theme)} ${describePath(undone.map(m => m.direction))}, ${next.moves} moves`);
+
+    // Clear hints on undo
+    setAutoMessage(null);
+    clearHint();
+  };
+
+  const handleRedo = () => {
+    if (isPlayingAuto) return;
+    const moves = redoMoves(gameRef.current.tree);
+    if (!moves.length || !commitSlide(moves)) return;
+    cancelSolve();
+    setAutoMessage(null);
+    clearHint();
+  };
+
+  // Move to any position in the history tree, keeping every branch
+  const handleJump = (node: number) => {
+    if (isPlayingAuto) return;
+    const next = jumpTo(gameRef.current, node);
+    cancelSolve();
+    clearHint();
+    if (!next) {
+      setAutoMessage("That line no longer replays on this board.");
+      return;
     }
-  }, []);
+    audioService.playUndo();
+    gameRef.current = next;
+    setGame(next);
+    setAutoMessage(null);
+    announce(`Back to ${next.moves} moves`);
+  };
 
-  const handleUndo = () => {
-    setHistory(prev => {
-        if (prev.length === 0) return prev;
-        const newHistory = [...prev];
-        const lastState = newHistory.pop();
-        if (lastState) {
-            audioService.playUndo();
-            setBlocks(lastState.blocks);
-            setMoves(lastState.moves);
-            
-            // Clear hints on undo
-            setAutoMessage(null);
-            clearHint();
-        }
-        return newHistory;
-    });
+  // Recount the game in the other metric; a pending solution no longer applies
+  const toggleMetric = () => {
+    if (isPlayingAuto) return;
+    cancelSolve();
+    setAutoMessage(null);
+    clearHint();
+    setGame(g => withMetric(g, g.metric === MoveMetric.STEP ? MoveMetric.SLIDE : MoveMetric.STEP));
   };
 
   const handleReset = () => {
-    setHistory([]);
+    // Stop the computer first so no planned slide lands on the fresh board
+    autoPlayerRef.current?.pause();
+    autoPlayerRef.current = null;
+    cancelSolve();
     setAutoMessage(null);
     clearHint();
     onReset();
   };
 
-  const moveBlock = useCallback((direction: Direction, autoId?: string) => {
-    if (isPlayingAuto) return;
+  const moveBlock = useCallback((direction: Direction, autoId?: string): boolean => {
+    if (isPlayingAuto) return false;
     if (isPlayingHint) {
       clearHint();
     }
 
     const targetId = autoId || selectedBlockId;
-    if (!targetId) return;
-
-    const currentBlocks = blocksRef.current;
-    const currentMoves = movesRef.current;
-
-    const blockIndex = currentBlocks.findIndex(b => b.id === targetId);
-    if (blockIndex === -1) return;
-
-    const block = currentBlocks[blockIndex];
-    let newX = block.x;
-    let newY = block.y;
-
-    switch (direction) {
-      case Direction.UP: newY -= 1; break;
-      case Direction.DOWN: newY += 1; break;
-      case Direction.LEFT: newX -= 1; break;
-      case Direction.RIGHT: newX += 1; break;
-    }
-
-    // Check boundaries
-    if (newX < 0 || newY < 0 || newX + block.width > GRID_WIDTH || newY + block.height > GRID_HEIGHT) {
-      return;
-    }
-
-    // Check collisions
-    const occupied = getOccupiedCells(currentBlocks, targetId);
-    let collision = false;
-    for (let dx = 0; dx < block.width; dx++) {
-      for (let dy = 0; dy < block.height; dy++) {
-        if (occupied.has(`${newX + dx},${newY + dy}`)) {
-          collision = true;
-          break;
-        }
-      }
-    }
-
-    if (collision) return;
-
-    // Successful Move
-    const newBlocks = [...currentBlocks];
-    newBlocks[blockIndex] = { ...block, x: newX, y: newY };
-    
-    // Play sound
-    audioService.playMove();
+    if (!targetId) return false;
 
     // Clear Hint if player moves
+    if (!commitSlide([{ blockId: targetId, direction }])) return false;
+    cancelSolve();
     setAutoMessage(null);
+    return true;
+  }, [selectedBlockId, commitSlide, isPlayingAuto, isPlayingHint, clearHint, cancelSolve]);
+
+  // Positions a block can be dragged to; none while the computer plays
+  const getSlideTargets = (id: string) => {
+    const current = gameRef.current;
+    if (isPlayingAuto || current.isWon) return [];
+    return slideTargets(current.level, current.blocks, current.blocks.findIndex(b => b.id === id));
+  };
 
-    // Save history BEFORE updating state
-    setHistory(prev => [...prev, { blocks: currentBlocks, moves: currentMoves }]);
-
-    setBlocks(newBlocks);
-    setMoves(m => m + 1);
-
-    if (block.type === BlockType.KING && newX === WIN_COORDS.x && newY === WIN_COORDS.y) {
-      audioService.playWin();
-      setTimeout(onWin, 300);
+  // A drag dropped on another position: the whole route is one slide
+  const handleSlide = (id: string, path: Direction[]) => {
+    if (isPlayingAuto) return;
+    setSelectedBlockId(id);
+    clearHint();
+    if (commitSlide(path.map(direction => ({ blockId: id, direction })))) {
+      cancelSolve();
+      setAutoMessage(null);
     }
-  }, [selectedBlockId, setBlocks, setMoves, getOccupiedCells, onWin, isPlayingAuto, isPlayingHint, clearHint]);
-
-  const handleSwipe = (id: string, direction: Direction) => {
-      if (isPlayingAuto) return;
-      setSelectedBlockId(id);
-      clearHint();
-      moveBlock(direction, id);
   };
 
-  // Keyboard controls
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!selectedBlockId || isPlayingAuto) return;
-      if (isPlayingHint) {
-        clearHint();
-      }
-      switch (e.key) {
-        case 'ArrowUp': moveBlock(Direction.UP); break;
-        case 'ArrowDown': moveBlock(Direction.DOWN); break;
-        case 'ArrowLeft': moveBlock(Direction.LEFT); break;
-        case 'ArrowRight': moveBlock(Direction.RIGHT); break;
-        case 'w': moveBlock(Direction.UP); break;
-        case 's': moveBlock(Direction.DOWN); break;
-        case 'a': moveBlock(Direction.LEFT); break;
-        case 'd': moveBlock(Direction.RIGHT); break;
-      }
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedBlockId, moveBlock, isPlayingAuto, isPlayingHint, clearHint]);
-
-  const handleGetHint = useCallback(() => {
+  const handleGetHint = useCallback(async () => {
     if (isSolving || isPlayingAuto) return;
     clearHintTimeout();
     setIsPlayingHint(true);
     setAutoMessage("Finding a smart hint...");
 
-    const solution = findSolution(blocks);
+    let solution;
+    try {
+      solution = await startSolve("Finding a smart hint...");
+    } catch (error) {
+      if (!isSolverCancelled(error)) console.error("Error finding hint:", error);
+      setAutoMessage(null);
+      setIsPlayingHint(false);
+      return;
+    }
     if (!solution || solution.length === 0) {
       const message = solution === null ? "No hint available for this layout." : "Already solved!";
       setAutoMessage(message);
@@ -248,7 +296,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
     }
 
     const nextMove = solution[0];
-    const block = blocks[nextMove.blockIndex];
+    const block = gameRef.current.blocks[nextMove.blockIndex];
     if (!block) {
       setAutoMessage("No hint available right now.");
       hintTimeoutRef.current = window.setTimeout(() => {
@@ -258,105 +306,223 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
       return;
     }
 
-    const directionLabel = directionToText(nextMove.direction);
-    const message = `Try moving ${block.label || 'that block'} ${directionLabel}.`;
+    const message = `Try moving ${blockName(block, gameRef.current.blocks, theme)} ${directionWord(nextMove.direction)}.`;
 
     setHintData({ blockId: block.id, direction: nextMove.direction, message });
+    setGame(g => ({ ...g, hintsUsed: g.hintsUsed + 1 }));
     setSelectedBlockId(block.id);
     setAutoMessage(message);
+    announce(`Hint: ${message}`);
 
     hintTimeoutRef.current = window.setTimeout(() => {
       setHintData(null);
       setAutoMessage(null);
       setIsPlayingHint(false);
     }, 4000);
-  }, [blocks, isPlayingAuto, isSolving, clearHintTimeout, directionToText]);
+  }, [isPlayingAuto, isSolving, clearHintTimeout, startSolve, setGame, setSelectedBlockId, announce, theme]);
 
   // Auto-solve (computer move) logic
   const handleAutoSolve = async () => {
     if (isPlayingAuto) return;
     clearHint();
-    setIsSolving(true);
+    setAutoMessage("Computer is thinking...");
+    let solution;
+    try {
+      solution = await startSolve("Computer is thinking...");
+    } catch (error) {
+      if (!isSolverCancelled(error)) console.error("Error solving:", error);
+      setAutoMessage(null);
+      return;
+    }
+    if (!solution || solution.length === 0) {
+      setAutoMessage(solution === null ? "No solution found!" : "Already solved!");
+      setTimeout(() => setAutoMessage(null), 3000);
+      return;
+    }
+    // Block order never changes, so indices resolve against the current blocks
+    const planned: Move[] = solution.map(m => ({ blockId: gameRef.current.blocks[m.blockIndex].id, direction: m.direction }));
+    // Play `autoSteps` moves in the active metric, which may be several shifts each
+    let stepsToShow = planned.length;
+    if (autoSteps !== -1) {
+      while (countMoves(planned.slice(0, stepsToShow), gameRef.current.metric) > autoSteps) stepsToShow--;
+    }
+    // Consecutive shifts of one block play as one slide, like a drag
+    const slides: Move[][] = [];
+    for (const move of planned.slice(0, stepsToShow)) {
+      const last = slides[slides.length - 1];
+      if (last?.[0].blockId === move.blockId) last.push(move);
+      else slides.push([move]);
+    }
     setAutoMessage("Computer is moving...");
-    setTimeout(() => {
-      const solution = findSolution(blocks);
-      setIsSolving(false);
-      if (!solution || solution.length === 0) {
-        setAutoMessage(solution === null ? "No solution found!" : "Already solved!");
+    setIsPlayingAuto(true);
+    setSelectedBlockId(null);
+    let applied = 0;
+    const player = new MovePlayer(slides.length, (position, playing) => {
+      let failed = false;
+      if (position > applied) {
+        const slide = slides[position - 1];
+        applied = position;
+        if (commitSlide(slide, true)) {
+          setSelectedBlockId(slide[0].blockId);
+        } else {
+          failed = true;
+          player.pause();
+        }
+      }
+      if (!playing && autoPlayerRef.current === player) {
+        autoPlayerRef.current = null;
+        setAutoMessage(null);
+        setIsPlayingAuto(false);
+      }
+      if (failed) {
+        setAutoMessage("The board changed under the computer. Auto-play stopped.");
         setTimeout(() => setAutoMessage(null), 3000);
-        return;
       }
-      const stepsToShow = autoSteps === -1 ? solution.length : Math.min(solution.length, autoSteps);
-      const movesToApply = solution.slice(0, stepsToShow);
-      setIsPlayingAuto(true);
-      setSelectedBlockId(null);
-      let i = 0;
-      const interval = setInterval(() => {
-        if (i >= movesToApply.length) {
-          clearInterval(interval);
-          setAutoMessage(null);
-          setIsPlayingAuto(false);
-          return;
-        }
-        const move = movesToApply[i];
-        const currentBlocks = blocksRef.current;
-        const currentMoves = movesRef.current;
-        const index = move.blockIndex;
-        const block = currentBlocks[index];
-        if (block) {
-          let nx = block.x;
-          let ny = block.y;
-          if (move.direction === Direction.UP) ny--;
-          else if (move.direction === Direction.DOWN) ny++;
-          else if (move.direction === Direction.LEFT) nx--;
-          else if (move.direction === Direction.RIGHT) nx++;
-          const newBlocks = [...currentBlocks];
-          newBlocks[index] = { ...block, x: nx, y: ny };
-          audioService.playMove();
-          setHistory(prev => [...prev, { blocks: currentBlocks, moves: currentMoves }]);
-          setBlocks(newBlocks);
-          setMoves(m => m + 1);
-          setSelectedBlockId(block.id);
-          if (block.type === BlockType.KING && nx === WIN_COORDS.x && ny === WIN_COORDS.y) {
-            audioService.playWin();
-            setTimeout(onWin, 300);
-          }
-        }
-        i++;
-      }, 250);
-    }, 100);
+    }, playbackSpeed);
+    autoPlayerRef.current = player;
+    player.play();
   };
 
-  const boardWidth = GRID_WIDTH * unitSize + (GRID_WIDTH - 1) * gap;
-  const boardHeight = GRID_HEIGHT * unitSize + (GRID_HEIGHT - 1) * gap;
+  const changePlaybackSpeed = (speed: number) => {
+    setPlaybackSpeed(speed);
+    autoPlayerRef.current?.setSpeed(speed);
+  };
 
-  // For keyboard focus management
-  const blockRefs = useRef<(HTMLDivElement | null)[]>([]);
+  // Select the block `offset` places along from the selected one, in the
+  // level's block order
+  const cycleSelection = (offset: number) => {
+    const from = blocks.findIndex(b => b.id === selectedBlockId);
+    const index = from === -1
+      ? (offset > 0 ? 0 : blocks.length - 1)
+      : (from + offset + blocks.length) % blocks.length;
+    const block = blocks[index];
+    audioService.playSelect();
+    setSelectedBlockId(block.id);
+    setCursor({ x: block.x, y: block.y });
+    announce(`${blockName(block, blocks, theme)} selected`);
+  };
 
-  // Focus the selected block when selectedBlockId changes
-  useEffect(() => {
-    if (selectedBlockId && blockRefs.current) {
-      const idx = blocks.findIndex(b => b.id === selectedBlockId);
-      if (idx !== -1 && blockRefs.current[idx]) {
-        blockRefs.current[idx]?.focus();
-      }
+  // Keyboard shortcuts and gamepad buttons, both through the input map.
+  // Moves with nothing selected pick the first block instead.
+  const handleAction = (action: InputAction) => {
+    if (!inputEnabled || isPlayingAuto) return;
+    const direction = MOVE_ACTIONS[action];
+    if (direction) {
+      if (selectedBlockId) moveBlock(direction);
+      else cycleSelection(1);
+      return;
     }
-  }, [selectedBlockId, blocks]);
+    switch (action) {
+      case InputAction.SELECT_NEXT: cycleSelection(1); break;
+      case InputAction.SELECT_PREVIOUS: cycleSelection(-1); break;
+      case InputAction.UNDO: handleUndo(); break;
+      case InputAction.REDO: handleRedo(); break;
+      case InputAction.HINT: handleGetHint(); break;
+      case InputAction.RESET: handleReset(); break;
+    }
+  };
+
+  // The listeners live for the whole board; these refs hand them the latest state
+  const handleActionRef = useRef(handleAction);
+  handleActionRef.current = handleAction;
+  const keyBindingsRef = useRef(keyBindings);
+  keyBindingsRef.current = keyBindings;
+
+  useEffect(() => {
+    const onAction = (action: InputAction) => handleActionRef.current(action);
+    const handleKeyDown = createKeyHandler(() => keyBindingsRef.current, onAction);
+    const reader = new GamepadReader(onAction);
+    // Only poll while a pad is plugged in
+    const updatePads = () => {
+      if (navigator.getGamepads?.().some(Boolean)) reader.start();
+      else reader.stop();
+    };
+    updatePads();
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('gamepadconnected', updatePads);
+    window.addEventListener('gamepaddisconnected', updatePads);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('gamepadconnected', updatePads);
+      window.removeEventListener('gamepaddisconnected', updatePads);
+      reader.stop();
+    };
+  }, []);
+
+  // Where the selected block can go, drawn as ghosts to tap on
+  const selectedIndex = blocks.findIndex(b => b.id === selectedBlockId);
+  const destinations: SlideTarget[] = useMemo(
+    () => selectedIndex === -1 || game.isWon || isPlayingAuto ? [] : slideTargets(level, blocks, selectedIndex).slice(1),
+    [level, blocks, selectedIndex, game.isWon, isPlayingAuto]
+  );
+
+  const boardWidth = level.width * unitSize + (level.width - 1) * gap;
+  const boardHeight = level.height * unitSize + (level.height - 1) * gap;
 
-  // Handle Tab/Shift+Tab navigation
-  const handleBlockKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, idx: number) => {
-    if (e.key === 'Tab') {
+  // Keyboard and screen-reader model of the board: a grid of cells with a
+  // cursor. Arrow keys move the cursor, or slide the selected block and keep
+  // the cursor on it; Enter or Space picks up or puts down the block under
+  // the cursor.
+  const gridRef = useRef<HTMLDivElement>(null);
+  const gridId = useId();
+  const cellId = (x: number, y: number) => `${gridId}-${x}-${y}`;
+
+  const describeBoardAloud = () => announce(describeBoard(level, blocks, theme));
+
+  const handleGridKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const direction = ({
+      ArrowUp: Direction.UP, ArrowDown: Direction.DOWN, ArrowLeft: Direction.LEFT, ArrowRight: Direction.RIGHT,
+    } as Record<string, Direction>)[e.key];
+    const under = blockAt(blocks, cursor.x, cursor.y);
+
+    // Keys handled here stay away from the input map's window listener
+    if (direction) {
+      e.preventDefault();
+      e.stopPropagation();
+      const { dx, dy } = DIRECTION_DELTAS[direction];
+      const selected = blocks.find(b => b.id === selectedBlockId);
+      if (selected && !isPlayingAuto) {
+        if (isPlayingHint) clearHint();
+        if (moveBlock(direction)) {
+          setCursor(c => ({
+            x: Math.max(0, Math.min(level.width - 1, c.x + dx)),
+            y: Math.max(0, Math.min(level.height - 1, c.y + dy)),
+          }));
+        }
+        else announce(`${blockName(selected, blocks, theme)} cannot move ${directionWord(direction)}`);
+        return;
+      }
+      const x = cursor.x + dx;
+      const y = cursor.y + dy;
+      if (x < 0 || y < 0 || x >= level.width || y >= level.height) return;
+      setCursor({ x, y });
+    } else if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      let nextIdx;
-      if (e.shiftKey) {
-        nextIdx = (idx - 1 + blocks.length) % blocks.length;
-      } else {
-        nextIdx = (idx + 1) % blocks.length;
+      e.stopPropagation();
+      if (under && under.id !== selectedBlockId) {
+        audioService.playSelect();
+        setSelectedBlockId(under.id);
+        announce(`${blockName(under, blocks, theme)} picked up. Arrow keys slide it.`);
+      } else if (selectedBlockId) {
+        setSelectedBlockId(null);
+        announce('Put down');
       }
-      setSelectedBlockId(blocks[nextIdx].id);
+    } else if (e.key === 'Escape' && selectedBlockId) {
+      e.preventDefault();
+      e.stopPropagation();
+      setSelectedBlockId(null);
+      announce('Put down');
+    } else if (e.key === 'i') {
+      e.preventDefault();
+      e.stopPropagation();
+      describeBoardAloud();
     }
   };
 
+  // A new level starts the cursor over again
+  useEffect(() => setCursor({ x: 0, y: 0 }), [level]);
+
   return (
     <div ref={containerRef} className="w-full h-full flex flex-col items-center justify-center">
       
@@ -365,18 +531,59 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
          <div className="flex items-center gap-2 bg-white/80 rounded-xl px-3 py-2 shadow-sm border border-slate-200">
              <span className="text-xs text-slate-400 font-bold uppercase">Moves</span>
              <span className="text-xl font-bold text-slate-700 font-mono min-w-[3ch] text-center">{moves}</span>
+             {par !== null && (
+               <span className="text-xs font-bold text-slate-400 font-mono" title="Par: the fewest moves that solve this level">/{par}</span>
+             )}
+             <button
+                onClick={toggleMetric}
+                disabled={isPlayingAuto}
+                className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded-md bg-slate-100 text-slate-500 hover:bg-slate-200 transition-colors disabled:opacity-50"
+                title={metric === MoveMetric.SLIDE
+                  ? "Counting slides: moving one piece any distance is one move"
+                  : "Counting steps: every one-cell shift is one move"}
+             >
+                {metric === MoveMetric.SLIDE ? 'Slides' : 'Steps'}
+             </button>
+             <span className="flex items-center gap-1 pl-2 border-l border-slate-200 text-sm font-bold text-slate-500 font-mono" title="Time (paused while the tab is hidden)">
+                <Clock size={14} /> {formatDuration(elapsedMs())}
+             </span>
          </div>
 
          <div className="flex items-center gap-2 flex-wrap justify-end">
              <button 
                 onClick={handleUndo}
-                disabled={history.length === 0}
+                disabled={isPlayingAuto || history.length === 0}
                 className="p-2 rounded-xl bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors shadow-sm disabled:opacity-50"
                 title="Undo"
              >
                 <Undo2 size={20} />
              </button>
 
+             <button 
+                onClick={handleRedo}
+                disabled={isPlayingAuto || !redoMoves(game.tree).length}
+                className="p-2 rounded-xl bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors shadow-sm disabled:opacity-50"
+                title="Redo"
+             >
+                <Redo2 size={20} />
+             </button>
+
+             <button 
+                onClick={() => setShowTimeline(s => !s)}
+                className={`p-2 rounded-xl transition-colors shadow-sm ${showTimeline ? 'bg-amber-100 text-amber-600' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'}`}
+                title={showTimeline ? "Hide move history" : "Show move history and branches"}
+             >
+                <GitBranch size={20} />
+             </button>
+
+             <button 
+                onClick={describeBoardAloud}
+                className="p-2 rounded-xl bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors shadow-sm"
+                title="Describe the board (I)"
+             >
+                <ScanText size={20} />
+             </button>
+
              {/* Hint Button */}
              <button 
                 onClick={handleGetHint}
@@ -389,29 +596,40 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
              </button>
 
              {/* Computer Move (Auto-Solve) Group */}
-             <div className={`flex items-center bg-slate-100 rounded-xl p-1 border border-slate-200 ${isPlayingAuto ? 'opacity-50 pointer-events-none' : ''}`}>
+             <div className="flex items-center bg-slate-100 rounded-xl p-1 border border-slate-200">
                 <select 
                   value={autoSteps} 
                   onChange={(e) => setAutoSteps(Number(e.target.value))}
-                  className="bg-transparent text-xs font-bold text-slate-500 outline-none cursor-pointer px-1"
+                  disabled={isPlayingAuto}
+                  className="bg-transparent text-xs font-bold text-slate-500 outline-none cursor-pointer px-1 disabled:opacity-50"
                 >
-                  <option value={1}>1 Step</option>
-                  <option value={5}>5 Steps</option>
+                  <option value={1}>1 Move</option>
+                  <option value={5}>5 Moves</option>
                   <option value={-1}>All</option>
                 </select>
+                <select 
+                  value={playbackSpeed} 
+                  onChange={(e) => changePlaybackSpeed(Number(e.target.value))}
+                  className="bg-transparent text-xs font-bold text-slate-500 outline-none cursor-pointer px-1"
+                  title="Playback speed"
+                >
+                  {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+                </select>
                 <button 
-                  onClick={handleAutoSolve}
+                  onClick={() => isPlayingAuto ? autoPlayerRef.current?.pause() : handleAutoSolve()}
                   disabled={isSolving}
                   className="ml-1 p-1.5 rounded-lg bg-white text-slate-600 shadow-sm hover:text-amber-500 transition-colors"
-                  title="Let Computer Move"
+                  title={isPlayingAuto ? "Stop the computer" : "Let Computer Move"}
                 >
-                  {isSolving ? <span className="animate-spin text-xs">⏳</span> : <Play size={14} fill="currentColor" />}
+                  {isSolving ? <span className="animate-spin text-xs">⏳</span>
+                    : isPlayingAuto ? <Pause size={14} fill="currentColor" />
+                    : <Play size={14} fill="currentColor" />}
                 </button>
              </div>
              
              <button 
                 onClick={handleReset}
-                disabled={false}
+                disabled={isPlayingAuto}
                 className="p-2 rounded-xl bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors shadow-sm disabled:opacity-50"
                 title="Reset"
              >
@@ -430,7 +648,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
 
       {/* The Board */}
       <div 
-        className="relative bg-slate-800 rounded-xl p-3 shadow-2xl border-b-8 border-slate-900 transition-all duration-300"
+        className={`relative rounded-xl p-3 shadow-2xl border-b-8 transition-all duration-300 ${theme.board}`}
         style={{
           width: boardWidth + 24, // + padding
           height: boardHeight + 24,
@@ -438,74 +656,89 @@ export const GameBoard: React.FC<GameBoardProps> = ({ blocks, setBlocks, moves,
         onClick={() => setSelectedBlockId(null)}
       >
         <div className="relative w-full h-full">
-            {blocks.map((block, idx) => (
+            {destinations.map(target => (
+              <SlideGhost
+                key={`${target.x},${target.y}`}
+                block={blocks[selectedIndex]}
+                blocks={blocks}
+                target={target}
+                metric={metric}
+                theme={theme}
+                unitSize={unitSize}
+                gap={gap}
+                onSelect={t => handleSlide(blocks[selectedIndex].id, t.path)}
+              />
+            ))}
+            {blocks.map(block => (
               <BlockComponent
                 key={block.id}
                 block={block}
                 isSelected={block.id === selectedBlockId}
                 hintDirection={hintData?.blockId === block.id ? hintData.direction : null}
                 onClick={setSelectedBlockId}
-                onSwipe={handleSwipe}
+                getSlideTargets={getSlideTargets}
+                onSlide={handleSlide}
                 unitSize={unitSize}
                 gap={gap}
-                tabIndex={0}
-                ref={el => blockRefs.current[idx] = el}
-                onKeyDown={e => handleBlockKeyDown(e, idx)}
-                onFocus={() => setSelectedBlockId(block.id)}
+                theme={theme}
+                aria-hidden="true"
               />
             ))}
+
+            <div
+              ref={gridRef}
+              role="grid"
+              tabIndex={0}
+              aria-label={`${level.name} board`}
+              aria-describedby={`${gridId}-help`}
+              aria-activedescendant={cellId(cursor.x, cursor.y)}
+              onKeyDown={handleGridKeyDown}
+              onFocus={() => setGridFocused(true)}
+              onBlur={() => setGridFocused(false)}
+              className="absolute inset-0 z-30 outline-none pointer-events-none"
+            >
+              {Array.from({ length: level.height }, (_, y) => (
+                <div key={y} role="row">
+                  {Array.from({ length: level.width }, (_, x) => {
+                    const block = blockAt(blocks, x, y);
+                    const isCursor = gridFocused && cursor.x === x && cursor.y === y;
+                    return (
+                      <div
+                        key={x}
+                        id={cellId(x, y)}
+                        role="gridcell"
+                        aria-label={describeCell(blocks, theme, x, y)}
+                        aria-selected={!!block && block.id === selectedBlockId}
+                        className={`absolute rounded-xl ${isCursor ? 'ring-4 ring-sky-400' : ''}`}
+                        style={{ left: x * (unitSize + gap), top: y * (unitSize + gap), width: unitSize, height: unitSize }}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
         </div>
         
-        {/* Exit Marker */}
-        <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 w-1/2 flex flex-col items-center opacity-40 pointer-events-none">
-            <div className="text-slate-500 text-[10px] font-bold mb-0.5 tracking-[0.2em]">EXIT</div>
-            <ArrowDown size={16} className="text-slate-400" />
-        </div>
+        <ExitMarker exit={level.exit} unitSize={unitSize} gap={gap} theme={theme} />
       </div>
 
-      {/* Mobile Controls: Only show on touch devices */}
-      <div
-        className="mt-6 grid grid-cols-3 gap-3"
-        style={{ display: 'none' }}
-        id="mobile-controls"
-      >
-        <div />
-        <button
-          className="w-14 h-14 flex items-center justify-center bg-white rounded-2xl shadow-sm border-b-4 border-slate-200 active:border-b-0 active:translate-y-1 active:bg-slate-50 text-slate-600 transition-all"
-          onClick={e => { e.stopPropagation(); moveBlock(Direction.UP); }}
-        >
-          <ArrowUp size={24} />
-        </button>
-        <div />
-        <button
-          className="w-14 h-14 flex items-center justify-center bg-white rounded-2xl shadow-sm border-b-4 border-slate-200 active:border-b-0 active:translate-y-1 active:bg-slate-50 text-slate-600 transition-all"
-          onClick={e => { e.stopPropagation(); moveBlock(Direction.LEFT); }}
-        >
-          <ArrowLeft size={24} />
-        </button>
-        <button
-          className="w-14 h-14 flex items-center justify-center bg-white rounded-2xl shadow-sm border-b-4 border-slate-200 active:border-b-0 active:translate-y-1 active:bg-slate-50 text-slate-600 transition-all"
-          onClick={e => { e.stopPropagation(); moveBlock(Direction.DOWN); }}
-        >
-          <ArrowDown size={24} />
-        </button>
-        <button
-          className="w-14 h-14 flex items-center justify-center bg-white rounded-2xl shadow-sm border-b-4 border-slate-200 active:border-b-0 active:translate-y-1 active:bg-slate-50 text-slate-600 transition-all"
-          onClick={e => { e.stopPropagation(); moveBlock(Direction.RIGHT); }}
-        >
-          <ArrowRight size={24} />
-        </button>
+      <p id={`${gridId}-help`} className="sr-only">
+        Arrow keys move between cells. Enter or Space picks up the block in a cell, then the arrow keys slide it;
+        Enter, Space or Escape puts it down. Press I to hear the whole board.
+      </p>
+      <div aria-live="polite" className="sr-only">
+        {announcement.text}{announcement.count % 2 ? '\u00a0' : ''}
       </div>
 
-      {/* Show mobile controls only on touch devices */}
-      <script dangerouslySetInnerHTML={{
-        __html: `
-          if ('ontouchstart' in window || navigator.maxTouchPoints > 0) {
-            document.getElementById('mobile-controls').style.display = 'grid';
-          }
-        `
-      }} />
-
+      {showTimeline && (
+        <HistoryTimeline
+          tree={game.tree}
+          blocks={blocks}
+          theme={theme}
+          disabled={isPlayingAuto}
+          onJump={handleJump}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Dices, Play, RefreshCw } from 'lucide-react';
+import { LevelDefinition, MoveMetric } from '../types';
+import { GeneratedPuzzle, GeneratorProgress } from '../services/generator';
+import { SolverTask, generateAsync, isSolverCancelled } from '../services/solverClient';
+
+interface GeneratorModalProps {
+  template: LevelDefinition;
+  metric: MoveMetric;
+  onPlay: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+// Ask for a random puzzle on the current board and piece set, by solution length
+export const GeneratorModal: React.FC<GeneratorModalProps> = ({ template, metric, onPlay, onClose }) => {
+  const [minMoves, setMinMoves] = useState(40);
+  const [maxMoves, setMaxMoves] = useState(60);
+  const [progress, setProgress] = useState<GeneratorProgress | null>(null);
+  const [puzzle, setPuzzle] = useState<GeneratedPuzzle | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const taskRef = useRef<SolverTask<GeneratedPuzzle | null> | null>(null);
+
+  useEffect(() => () => taskRef.current?.cancel(), []);
+
+  const unit = metric === MoveMetric.SLIDE ? 'slides' : 'steps';
+
+  const handleGenerate = async () => {
+    if (minMoves > maxMoves) {
+      setError("The minimum must not exceed the maximum.");
+      return;
+    }
+    taskRef.current?.cancel();
+    const task = generateAsync(template, { minMoves, maxMoves, metric }, setProgress);
+    taskRef.current = task;
+    setIsGenerating(true);
+    setPuzzle(null);
+    setProgress(null);
+    setError(null);
+    try {
+      const result = await task.promise;
+      if (!result) setError("No solvable layout turned up for these pieces.");
+      setPuzzle(result);
+    } catch (err) {
+      if (isSolverCancelled(err)) return;
+      console.error("Error generating level:", err);
+      setError("The generator failed.");
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, label: string) => (
+    <input
+      type="number"
+      min={1}
+      max={500}
+      value={value}
+      onChange={(e) => onChange(Math.max(1, Number(e.target.value) || 1))}
+      disabled={isGenerating}
+      aria-label={label}
+      className="w-20 font-mono text-center bg-slate-50 border border-slate-200 rounded-xl p-2 outline-none focus:border-amber-400"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Dices className="text-amber-500" /> Random Puzzle
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              A new layout of the pieces from <strong>{template.name}</strong> on its {template.width}x{template.height} board.
+            </p>
+
+            <div className="flex items-center gap-2 text-sm text-slate-600 font-bold">
+              Needing {numberInput(minMoves, setMinMoves, 'Fewest moves')} to {numberInput(maxMoves, setMaxMoves, 'Most moves')} {unit}
+            </div>
+
+            {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+            {isGenerating && (
+              <div className="mt-4 py-3 text-center text-sm text-slate-500">
+                <span className="animate-spin inline-block mr-2">⏳</span>
+                Tried {progress?.attempts ?? 0} layouts
+                {progress?.closest != null ? ` (closest: ${progress.closest} ${unit})` : ''}
+              </div>
+            )}
+
+            {puzzle && !isGenerating && (
+              <div className="mt-4 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm text-slate-600">
+                <div className="font-bold text-slate-800">{puzzle.level.name}</div>
+                <div>Optimal solution: <strong>{puzzle.optimalLength} {unit}</strong></div>
+                <div>{puzzle.reachableStates.toLocaleString()} reachable positions, {puzzle.branching.toFixed(1)} moves per position</div>
+                {!puzzle.inRange && (
+                  <div className="text-amber-600 mt-1">Nothing in range turned up in time; this is the closest find.</div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-3 mt-4">
+                <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating}
+                    className="flex-1 flex items-center justify-center gap-2 py-3 bg-slate-200 text-slate-600 font-bold rounded-xl hover:bg-slate-300 transition disabled:opacity-50"
+                >
+                    <RefreshCw size={18} /> {puzzle ? 'Another' : 'Generate'}
+                </button>
+                <button
+                    onClick={() => puzzle && onPlay(puzzle.level)}
+                    disabled={!puzzle || isGenerating}
+                    className="flex-1 flex items-center justify-center gap-2 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-500/20 disabled:opacity-50"
+                >
+                    <Play size={18} /> Play
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
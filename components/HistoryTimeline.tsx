@@ -0,0 +1,92 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Block, Direction, HistoryTree } from '../types';
+import { Theme } from '../themes';
+import { TimelineNode, layoutTree } from '../services/historyTree';
+import { blockName } from '../services/boardDescription';
+
+interface HistoryTimelineProps {
+  tree: HistoryTree;
+  blocks: Block[];
+  theme: Theme;
+  disabled: boolean;
+  onJump: (node: number) => void;
+}
+
+const COLUMN = 16;
+const LANE = 16;
+const PADDING = 8;
+export const TIMELINE_HEIGHT = 72;
+
+const ARROWS: Record<Direction, string> = {
+  [Direction.UP]: '↑',
+  [Direction.DOWN]: '↓',
+  [Direction.LEFT]: '←',
+  [Direction.RIGHT]: '→',
+};
+
+// The game's history tree drawn left to right, one column per move and one
+// row per branch. Clicking a dot jumps to that position.
+export const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ tree, blocks, theme, disabled, onJump }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const layout = useMemo(() => layoutTree(tree), [tree.nodes]);
+
+  const positions = new Map<number, TimelineNode>(layout.map(p => [p.node, p]));
+  const x = (depth: number) => PADDING + depth * COLUMN;
+  const y = (lane: number) => PADDING + lane * LANE;
+  const width = x(Math.max(...layout.map(p => p.depth))) + PADDING;
+  const height = y(Math.max(...layout.map(p => p.lane))) + PADDING;
+
+  // Nodes from the root to the current one
+  const onPath = new Set<number>();
+  for (let n = tree.current; n !== -1; n = tree.nodes[n].parent) onPath.add(n);
+
+  const labels = new Map(blocks.map(b => [b.id, blockName(b, blocks, theme)]));
+  const current = positions.get(tree.current)!;
+
+  // Keep the current position in view
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    el.scrollLeft = x(current.depth) - el.clientWidth / 2;
+  }, [current.depth]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className="w-full max-w-lg mt-4 overflow-auto bg-white/80 rounded-xl border border-slate-200 shadow-sm"
+      style={{ height: TIMELINE_HEIGHT }}
+    >
+      <svg width={width} height={height} className="block">
+        {layout.map(({ node, depth, lane }) => {
+          const parent = tree.nodes[node].parent;
+          if (parent === -1) return null;
+          const from = positions.get(parent)!;
+          return (
+            <line
+              key={`edge-${node}`}
+              x1={x(from.depth)} y1={y(from.lane)} x2={x(depth)} y2={y(lane)}
+              className={onPath.has(node) ? 'stroke-slate-500' : 'stroke-slate-300'}
+              strokeWidth={2}
+            />
+          );
+        })}
+        {layout.map(({ node, depth, lane }) => {
+          const { move } = tree.nodes[node];
+          const isCurrent = node === tree.current;
+          return (
+            <circle
+              key={node}
+              cx={x(depth)}
+              cy={y(lane)}
+              r={isCurrent ? 6 : 4}
+              onClick={() => !disabled && !isCurrent && onJump(node)}
+              className={`${disabled ? '' : 'cursor-pointer hover:fill-amber-300'} ${isCurrent ? 'fill-amber-500' : onPath.has(node) ? 'fill-slate-600' : 'fill-slate-300'}`}
+            >
+              <title>{move ? `Move ${depth}: ${labels.get(move.blockId) ?? move.blockId} ${ARROWS[move.direction]}` : 'Start'}</title>
+            </circle>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
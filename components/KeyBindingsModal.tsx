@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { X, Keyboard, Plus, Gamepad2 } from 'lucide-react';
+import {
+  ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  GAMEPAD_BUTTONS,
+  InputAction,
+  KeyBindings,
+  bindKey,
+  keyCombo,
+  unbindKey,
+} from '../services/inputMap';
+
+interface KeyBindingsModalProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+// Standard-mapping names for the buttons in GAMEPAD_BUTTONS
+const BUTTON_NAMES: Record<number, string> = {
+  1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 9: 'Start', 12: 'D-pad ↑', 13: 'D-pad ↓', 14: 'D-pad ←', 15: 'D-pad →',
+};
+
+const gamepadButtonsFor = (action: InputAction) =>
+  Object.entries(GAMEPAD_BUTTONS).filter(([, a]) => a === action).map(([button]) => BUTTON_NAMES[Number(button)]);
+
+// Rebind the keyboard shortcuts; gamepad buttons are listed for reference
+export const KeyBindingsModal: React.FC<KeyBindingsModalProps> = ({ bindings, onChange, onClose }) => {
+  // Action waiting for its new key
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  // Take the next key press ahead of every other listener, game included
+  useEffect(() => {
+    if (!listening) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        setListening(null);
+        return;
+      }
+      const combo = keyCombo(e);
+      if (!combo) return; // Wait for the key the modifiers go with
+      onChange(bindKey(bindings, listening, combo));
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative max-h-full overflow-auto">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Keyboard className="text-amber-500" /> Controls
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              Add a key, then press it. A key moves over from any action that had it. Moves act on the selected block.
+            </p>
+
+            <ul className="space-y-2">
+              {Object.values(InputAction).map(action => (
+                <li key={action} className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2">
+                  <span className="w-40 shrink-0 text-sm font-bold text-slate-700">{ACTION_LABELS[action]}</span>
+                  <div className="flex flex-wrap items-center gap-1 flex-1">
+                    {bindings[action].map(combo => (
+                      <span key={combo} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md bg-white border border-slate-300 text-xs font-mono text-slate-600">
+                        {combo}
+                        <button
+                          onClick={() => onChange(unbindKey(bindings, action, combo))}
+                          className="text-slate-400 hover:text-red-500"
+                          aria-label={`Remove ${combo} from ${ACTION_LABELS[action]}`}
+                        >
+                          <X size={12} />
+                        </button>
+                      </span>
+                    ))}
+                    {listening === action ? (
+                      <span className="px-2 py-0.5 rounded-md bg-amber-100 text-amber-700 text-xs font-bold animate-pulse">
+                        Press a key (Esc cancels)
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setListening(action)}
+                        className="p-1 rounded-md text-slate-400 hover:bg-slate-200 hover:text-slate-600"
+                        aria-label={`Add a key for ${ACTION_LABELS[action]}`}
+                      >
+                        <Plus size={14} />
+                      </button>
+                    )}
+                  </div>
+                  <span className="flex items-center gap-1 text-[10px] text-slate-400 font-bold" title="Gamepad">
+                    <Gamepad2 size={12} /> {gamepadButtonsFor(action).join(', ')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <p className="mt-3 text-xs text-slate-400">
+              The left stick moves like the D-pad.
+            </p>
+
+            <button
+                onClick={() => onChange(DEFAULT_BINDINGS)}
+                className="w-full mt-4 py-3 bg-slate-200 text-slate-600 font-bold rounded-xl hover:bg-slate-300 transition"
+            >
+                Restore defaults
+            </button>
+        </div>
+    </div>
+  );
+};
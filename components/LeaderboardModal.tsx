@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trophy, Footprints, Clock, LogIn } from 'lucide-react';
+import { LevelDefinition, MoveMetric } from '../types';
+import { LeaderboardEntry, LeaderboardSort, fetchLeaderboard } from '../services/leaderboardService';
+
+interface LeaderboardModalProps {
+  level: LevelDefinition;
+  metric: MoveMetric;
+  uid: string | null;
+  onSignIn: () => void;
+  onClose: () => void;
+}
+
+// m:ss.t
+const formatTime = (ms: number) => {
+  const tenths = Math.round(ms / 100);
+  const seconds = Math.floor(tenths / 10);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}.${tenths % 10}`;
+};
+
+// Top players on one level, by fewest moves or fastest time
+export const LeaderboardModal: React.FC<LeaderboardModalProps> = ({ level, metric, uid, onSignIn, onClose }) => {
+  const [sort, setSort] = useState<LeaderboardSort>('moves');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(null);
+    fetchLeaderboard(level, metric, sort)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(err => {
+        console.error("Error loading leaderboard:", err);
+        if (!cancelled) setError("Could not load the leaderboard.");
+      });
+    return () => { cancelled = true; };
+  }, [level, metric, sort]);
+
+  const unit = metric === MoveMetric.SLIDE ? 'slides' : 'steps';
+
+  const tab = (value: LeaderboardSort, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setSort(value)}
+      className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-bold transition-colors ${sort === value ? 'bg-white text-amber-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+    >
+      {icon} {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Trophy className="text-amber-500" /> Leaderboard
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              Best verified solutions of <strong>{level.name}</strong>, counted in {unit}.
+            </p>
+
+            <div className="flex gap-1 bg-slate-100 p-1 rounded-xl mb-4">
+              {tab('moves', <Footprints size={16} />, 'Fewest moves')}
+              {tab('time', <Clock size={16} />, 'Fastest')}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            {!entries && !error && (
+              <div className="py-6 text-center text-sm text-slate-500">
+                <span className="animate-spin inline-block mr-2">⏳</span> Loading...
+              </div>
+            )}
+
+            {entries && entries.length === 0 && (
+              <p className="py-6 text-center text-sm text-slate-500">No scores yet. Be the first!</p>
+            )}
+
+            {entries && entries.length > 0 && (
+              <ol className="space-y-1">
+                {entries.map((entry, i) => (
+                  <li
+                    key={entry.uid}
+                    className={`flex items-center gap-3 px-3 py-2 rounded-xl text-sm ${entry.uid === uid ? 'bg-amber-50 border border-amber-200' : 'bg-slate-50'}`}
+                  >
+                    <span className="w-6 font-bold text-slate-400">{i + 1}.</span>
+                    <span className="flex-1 font-bold text-slate-700 truncate">{entry.name}</span>
+                    <span className={`font-mono ${sort === 'moves' ? 'font-bold text-slate-800' : 'text-slate-400'}`}>{entry.moves}</span>
+                    <span className={`font-mono w-16 text-right ${sort === 'time' ? 'font-bold text-slate-800' : 'text-slate-400'}`}>{formatTime(entry.timeMs)}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {!uid && (
+              <button
+                onClick={onSignIn}
+                className="w-full mt-4 flex items-center justify-center gap-2 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-500/20"
+              >
+                <LogIn size={18} /> Sign in to post your scores
+              </button>
+            )}
+        </div>
+    </div>
+  );
+};
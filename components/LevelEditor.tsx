@@ -0,0 +1,361 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Block, BlockType, LevelDefinition } from '../types';
+import { BLOCK_ID_PREFIXES, createBlock, createShape } from '../constants';
+import { BlockComponent } from './BlockComponent';
+import { Crown, Shield, Sword, User, Castle, Target, Eraser, Trash2, Play, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { getBlockCells, isAtGoal, validateLevel } from '../services/engine';
+import { SearchProgress, SimplifiedMove } from '../services/solver';
+import { SolveTask, isSolverCancelled, solveAsync } from '../services/solverClient';
+import { defaultExit } from '../services/levelNotation';
+
+type EditorTool = BlockType | 'GOAL' | 'ERASE';
+
+interface LevelEditorProps {
+  initialLevel: LevelDefinition;
+  onPlay: (level: LevelDefinition) => void;
+}
+
+const TOOLS: { tool: EditorTool; label: string; icon: React.ReactNode }[] = [
+  { tool: BlockType.KING, label: 'King', icon: <Crown size={16} /> },
+  { tool: BlockType.VERTICAL, label: 'Knight', icon: <Shield size={16} /> },
+  { tool: BlockType.HORIZONTAL, label: 'General', icon: <Sword size={16} className="rotate-90" /> },
+  { tool: BlockType.PAWN, label: 'Pawn', icon: <User size={16} /> },
+  { tool: BlockType.SHAPE, label: 'L Wall', icon: <Castle size={16} /> },
+  { tool: 'GOAL', label: 'Goal', icon: <Target size={16} /> },
+  { tool: 'ERASE', label: 'Erase', icon: <Eraser size={16} /> },
+];
+
+const SIZE_OPTIONS = [3, 4, 5, 6, 7, 8];
+
+// Quiet time after an edit before the solvability check starts
+const CHECK_DELAY_MS = 300;
+
+// First free id in the style of the built-in levels: 'k' for the King, then v1, v2, ...
+const nextBlockId = (blocks: Block[], type: BlockType): string => {
+  const used = new Set(blocks.map(b => b.id));
+  if (type === BlockType.KING && !used.has('k')) return 'k';
+  let n = 1;
+  while (used.has(`${BLOCK_ID_PREFIXES[type]}${n}`)) n++;
+  return `${BLOCK_ID_PREFIXES[type]}${n}`;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ initialLevel, onPlay }) => {
+  const [name, setName] = useState(initialLevel.name);
+  const [width, setWidth] = useState(initialLevel.width);
+  const [height, setHeight] = useState(initialLevel.height);
+  const [blocks, setBlocks] = useState<Block[]>(initialLevel.blocks);
+  const [goal, setGoal] = useState(initialLevel.goal);
+  const [exit, setExit] = useState(initialLevel.exit);
+  const [tool, setTool] = useState<EditorTool>(BlockType.PAWN);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const boardRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; grabDx: number; grabDy: number } | null>(null);
+
+  const unitSize = 56;
+  const gap = 6;
+  const step = unitSize + gap;
+
+  // The King is always the piece that escapes
+  const king = blocks.find(b => b.type === BlockType.KING);
+
+  const level: LevelDefinition = useMemo(() => ({
+    id: 'draft',
+    name: name.trim() || 'Custom Level',
+    width,
+    height,
+    blocks,
+    targetId: king?.id ?? '',
+    goal,
+    exit,
+  }), [name, width, height, blocks, king, goal, exit]);
+
+  const issues = useMemo(() => {
+    const found = validateLevel(level);
+    if (!defaultExit(width, height, goal)) found.push('The goal must touch an edge of the board.');
+    if (king && found.length === 0 && isAtGoal(level, blocks)) found.push('The King already starts at the goal.');
+    return found;
+  }, [level, width, height, goal, king, blocks]);
+
+  // Live solvability check, only for layouts that are structurally valid.
+  // It runs in the solver worker once edits pause, so dragging a block or a
+  // board with a huge state space never stalls the editor; any edit cancels
+  // the check that was running.
+  const [solution, setSolution] = useState<SimplifiedMove[] | null | undefined>(undefined); // undefined while checking
+  const [checkProgress, setCheckProgress] = useState<SearchProgress | null>(null);
+
+  useEffect(() => {
+    setSolution(undefined);
+    setCheckProgress(null);
+    if (issues.length > 0) return;
+    let task: SolveTask | null = null;
+    const timer = setTimeout(() => {
+      task = solveAsync(level, level.blocks, undefined, setCheckProgress);
+      task.promise.then(setSolution).catch(err => {
+        if (isSolverCancelled(err)) return;
+        console.error("Error checking level:", err);
+        setSolution(null);
+      });
+    }, CHECK_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      task?.cancel();
+    };
+  }, [issues, level]);
+
+  // Cells claimed by more than one block, drawn in red
+  const overlapCells = useMemo(() => {
+    const seen = new Set<string>();
+    const clashes = new Set<string>();
+    blocks.forEach(b => getBlockCells(b).forEach(({ x, y }) => {
+      const key = `${x},${y}`;
+      if (seen.has(key)) clashes.add(key);
+      seen.add(key);
+    }));
+    return [...clashes].map(key => key.split(',').map(Number));
+  }, [blocks]);
+
+  const cellFromEvent = (e: React.PointerEvent) => {
+    const rect = boardRef.current!.getBoundingClientRect();
+    return {
+      x: Math.floor((e.clientX - rect.left) / step),
+      y: Math.floor((e.clientY - rect.top) / step),
+    };
+  };
+
+  const blockAtCell = (x: number, y: number) =>
+    [...blocks].reverse().find(b => getBlockCells(b).some(c => c.x === x && c.y === y));
+
+  const placeGoal = (x: number, y: number) => {
+    const size = king ?? { width: 2, height: 2 };
+    const next = {
+      x: clamp(x, 0, width - size.width),
+      y: clamp(y, 0, height - size.height),
+      width: size.width,
+      height: size.height,
+    };
+    setGoal(next);
+    const nextExit = defaultExit(width, height, next);
+    if (nextExit) setExit(nextExit);
+  };
+
+  const placeBlock = (type: BlockType, x: number, y: number) => {
+    const id = nextBlockId(blocks, type);
+    const template = type === BlockType.SHAPE
+      ? createShape(id, 0, 0, ['#.', '##'], 'WALL')
+      : createBlock(id, type, 0, 0);
+    const block = {
+      ...template,
+      x: clamp(x, 0, width - template.width),
+      y: clamp(y, 0, height - template.height),
+    };
+    setBlocks(prev => [...prev, block]);
+    setSelectedId(id);
+  };
+
+  const removeBlock = (id: string) => {
+    setBlocks(prev => prev.filter(b => b.id !== id));
+    setSelectedId(prev => prev === id ? null : prev);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const { x, y } = cellFromEvent(e);
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+
+    if (tool === 'GOAL') {
+      placeGoal(x, y);
+      return;
+    }
+
+    const hit = blockAtCell(x, y);
+    if (tool === 'ERASE') {
+      if (hit) removeBlock(hit.id);
+      return;
+    }
+
+    if (hit) {
+      // Grab the block where it was touched and follow the pointer
+      dragRef.current = { id: hit.id, grabDx: x - hit.x, grabDy: y - hit.y };
+      setSelectedId(hit.id);
+      e.currentTarget.setPointerCapture(e.pointerId);
+    } else {
+      placeBlock(tool, x, y);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = cellFromEvent(e);
+    const block = blocks.find(b => b.id === drag.id);
+    if (!block) return;
+    const nx = clamp(x - drag.grabDx, 0, width - block.width);
+    const ny = clamp(y - drag.grabDy, 0, height - block.height);
+    // Only touch state when the block actually changes cell, the solver reruns on every update
+    if (nx === block.x && ny === block.y) return;
+    setBlocks(prev => prev.map(b => b.id === drag.id ? { ...b, x: nx, y: ny } : b));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  // Delete/Backspace removes the selected block
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!selectedId) return;
+      if (e.target instanceof HTMLInputElement) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        removeBlock(selectedId);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedId]);
+
+  const handlePlay = () => {
+    onPlay({ ...level, id: `custom-${Date.now()}` });
+  };
+
+  const boardWidth = width * unitSize + (width - 1) * gap;
+  const boardHeight = height * unitSize + (height - 1) * gap;
+
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-4 overflow-auto py-4">
+
+      {/* Palette */}
+      <div className="flex flex-wrap justify-center gap-2 max-w-lg px-2">
+        {TOOLS.map(t => (
+          <button
+            key={t.tool}
+            onClick={() => setTool(t.tool)}
+            className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold shadow-sm border transition-colors ${tool === t.tool ? 'bg-amber-500 text-white border-amber-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-100'}`}
+          >
+            {t.icon} {t.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Level settings */}
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs font-bold text-slate-500">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Level name"
+          className="bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-sm text-slate-700 outline-none focus:border-amber-400 w-40"
+        />
+        <label className="flex items-center gap-1">
+          W
+          <select value={width} onChange={(e) => setWidth(Number(e.target.value))} className="bg-white border border-slate-200 rounded-lg px-1 py-1.5 outline-none">
+            {SIZE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          H
+          <select value={height} onChange={(e) => setHeight(Number(e.target.value))} className="bg-white border border-slate-200 rounded-lg px-1 py-1.5 outline-none">
+            {SIZE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={() => selectedId && removeBlock(selectedId)}
+          disabled={!selectedId}
+          className="p-2 rounded-lg bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors disabled:opacity-50"
+          title="Delete selected block"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
+
+      {/* Board */}
+      <div
+        className="relative bg-slate-800 rounded-xl p-3 shadow-2xl border-b-8 border-slate-900 flex-none"
+        style={{ width: boardWidth + 24, height: boardHeight + 24 }}
+      >
+        <div
+          ref={boardRef}
+          className="relative w-full h-full touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {/* Empty cells */}
+          {Array.from({ length: width * height }, (_, i) => (
+            <div
+              key={i}
+              className="absolute rounded-lg bg-slate-700/60"
+              style={{ left: (i % width) * step, top: Math.floor(i / width) * step, width: unitSize, height: unitSize }}
+            />
+          ))}
+
+          {/* Goal region */}
+          <div
+            className="absolute rounded-xl border-4 border-dashed border-amber-400/80 pointer-events-none"
+            style={{
+              left: goal.x * step - 3,
+              top: goal.y * step - 3,
+              width: goal.width * unitSize + (goal.width - 1) * gap + 6,
+              height: goal.height * unitSize + (goal.height - 1) * gap + 6,
+            }}
+          />
+
+          {blocks.map(block => (
+            <BlockComponent
+              key={block.id}
+              block={block}
+              isSelected={block.id === selectedId}
+              onClick={setSelectedId}
+              unitSize={unitSize}
+              gap={gap}
+            />
+          ))}
+
+          {/* Overlap markers */}
+          {overlapCells.map(([x, y]) => (
+            <div
+              key={`${x},${y}`}
+              className="absolute rounded-lg bg-red-500/60 ring-2 ring-red-500 z-30 pointer-events-none"
+              style={{ left: x * step, top: y * step, width: unitSize, height: unitSize }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Status */}
+      <div className="max-w-sm w-full px-4">
+        {issues.length > 0 ? (
+          <ul className="bg-red-50 border border-red-200 text-red-700 rounded-xl px-4 py-3 text-sm space-y-1">
+            {issues.map((issue, i) => (
+              <li key={i} className="flex gap-2 items-start"><AlertTriangle size={16} className="flex-none mt-0.5" /> {issue}</li>
+            ))}
+          </ul>
+        ) : solution === undefined ? (
+          <div className="bg-slate-50 border border-slate-200 text-slate-500 rounded-xl px-4 py-3 text-sm flex gap-2 items-center">
+            <span className="animate-spin inline-block">⏳</span>
+            Checking...{checkProgress ? ` ${checkProgress.explored.toLocaleString()} positions (depth ${checkProgress.depth})` : ''}
+          </div>
+        ) : solution ? (
+          <div className="bg-emerald-50 border border-emerald-200 text-emerald-700 rounded-xl px-4 py-3 text-sm flex gap-2 items-center">
+            <CheckCircle2 size={16} /> Solvable in {solution.length} moves.
+          </div>
+        ) : (
+          <div className="bg-amber-50 border border-amber-200 text-amber-700 rounded-xl px-4 py-3 text-sm flex gap-2 items-center">
+            <AlertTriangle size={16} /> No solution found for this layout.
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={handlePlay}
+        disabled={issues.length > 0}
+        className="flex items-center gap-2 px-6 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 shadow-lg shadow-amber-500/30 transition disabled:opacity-50"
+      >
+        <Play size={18} fill="currentColor" /> Play this level
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { X, FileText, Copy, Check, Upload } from 'lucide-react';
+import { Block, LevelDefinition } from '../types';
+import { parseLevel, serializeLevel } from '../services/levelNotation';
+
+interface LevelNotationModalProps {
+  level: LevelDefinition;
+  blocks: Block[];
+  onImport: (level: LevelDefinition) => void;
+  onClose: () => void;
+}
+
+// Paste a level in text notation, or copy the current position out of the game
+export const LevelNotationModal: React.FC<LevelNotationModalProps> = ({ level, blocks, onImport, onClose }) => {
+  const [text, setText] = useState(() => serializeLevel(level, blocks));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Error copying level:", error);
+    }
+  };
+
+  const handleLoad = () => {
+    const result = parseLevel(text, `custom-${Date.now()}`);
+    if (!result.level) {
+      setErrors(result.errors);
+      return;
+    }
+    onImport(result.level);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <FileText className="text-amber-500" /> Level Text
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              Copy the current position, or paste a layout using <strong>K</strong>, <strong>V</strong>, <strong>H</strong>, <strong>P</strong> and <strong>.</strong> (other letters make custom shapes).
+            </p>
+            <textarea
+              value={text}
+              onChange={(e) => { setText(e.target.value); setErrors([]); }}
+              spellCheck={false}
+              rows={9}
+              className="w-full font-mono text-sm bg-slate-50 border border-slate-200 rounded-xl p-3 outline-none focus:border-amber-400 resize-none"
+            />
+            {errors.length > 0 && (
+              <ul className="mt-2 text-sm text-red-600 space-y-1">
+                {errors.map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            )}
+            <div className="flex gap-3 mt-4">
+                <button
+                    onClick={handleCopy}
+                    className="flex-1 flex items-center justify-center gap-2 py-3 bg-slate-200 text-slate-600 font-bold rounded-xl hover:bg-slate-300 transition"
+                >
+                    {copied ? <Check size={18} /> : <Copy size={18} />} {copied ? 'Copied' : 'Copy'}
+                </button>
+                <button
+                    onClick={handleLoad}
+                    className="flex-1 flex items-center justify-center gap-2 py-3 bg-amber-500 text-white font-bold rounded-xl hover:bg-amber-600 transition shadow-lg shadow-amber-500/20"
+                >
+                    <Upload size={18} /> Load
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
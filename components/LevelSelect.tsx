@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import { Lock, CheckCircle2, Upload, Trophy, Clock, Star } from 'lucide-react';
+import { LevelPack, MoveMetric, PackProgress } from '../types';
+import { isLevelSolved, isLevelUnlocked, parseLevelPack } from '../services/levelPacks';
+import { formatDuration } from '../services/stopwatch';
+
+interface LevelSelectProps {
+  packs: LevelPack[];
+  progress: PackProgress;
+  currentLevelId: string;
+  onPlay: (pack: LevelPack, index: number) => void;
+  onLoadPack: (pack: LevelPack) => void;
+}
+
+const metricUnit = (metric: MoveMetric) => metric === MoveMetric.SLIDE ? 'slides' : 'steps';
+
+// Every pack with its levels, completion and best scores
+export const LevelSelect: React.FC<LevelSelectProps> = ({ packs, progress, currentLevelId, onPlay, onLoadPack }) => {
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setErrors([`${file.name} is not valid JSON.`]);
+      return;
+    }
+    const result = parseLevelPack(data);
+    if (!result.pack) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    onLoadPack(result.pack);
+  };
+
+  return (
+    <div className="w-full h-full overflow-auto py-4 px-2">
+      <div className="max-w-2xl mx-auto space-y-8">
+        {packs.map(pack => {
+          const solved = pack.levels.filter(l => isLevelSolved(progress, l.level.id)).length;
+          return (
+            <section key={pack.id}>
+              <div className="flex items-end justify-between mb-3 px-1">
+                <div>
+                  <h2 className="text-xl font-black text-slate-800">{pack.title}</h2>
+                  <p className="text-xs text-slate-400 font-bold">by {pack.author}</p>
+                </div>
+                <span className="text-sm font-bold text-slate-500">{solved}/{pack.levels.length} solved</span>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {pack.levels.map(({ level, par }, index) => {
+                  const unlocked = isLevelUnlocked(pack, index, progress);
+                  const best = progress[level.id]?.bestMoves[pack.metric];
+                  const bestTime = progress[level.id]?.bestTimeMs;
+                  const stars = progress[level.id]?.stars ?? 0;
+                  const isCurrent = level.id === currentLevelId;
+                  return (
+                    <button
+                      key={level.id}
+                      onClick={() => onPlay(pack, index)}
+                      disabled={!unlocked}
+                      className={`relative text-left p-3 rounded-xl border shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${isCurrent ? 'bg-amber-50 border-amber-400' : 'bg-white border-slate-200 hover:bg-slate-50'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs font-bold text-slate-400">#{index + 1}</span>
+                        {!unlocked ? <Lock size={14} className="text-slate-400" />
+                          : isLevelSolved(progress, level.id) ? <CheckCircle2 size={16} className="text-emerald-500" />
+                          : null}
+                      </div>
+                      <div className="font-bold text-slate-700 truncate">{level.name}</div>
+                      {stars > 0 && (
+                        <div className="flex gap-0.5 mt-0.5" title={`${stars} of 3 stars`}>
+                          {[1, 2, 3].map(n => (
+                            <Star key={n} size={12} fill="currentColor" className={n <= stars ? 'text-amber-400' : 'text-slate-200'} />
+                          ))}
+                        </div>
+                      )}
+                      <div className="text-xs text-slate-500 mt-1">
+                        Par {par} {metricUnit(pack.metric)}
+                      </div>
+                      {best !== undefined && (
+                        <div className={`text-xs font-bold mt-0.5 flex items-center gap-1 ${best <= par ? 'text-emerald-600' : 'text-amber-600'}`}>
+                          <Trophy size={12} /> Best {best}
+                        </div>
+                      )}
+                      {bestTime !== undefined && (
+                        <div className="text-xs text-slate-400 mt-0.5 flex items-center gap-1">
+                          <Clock size={12} /> {formatDuration(bestTime)}
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+
+        <div className="flex flex-col items-center gap-2">
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-200 text-slate-600 font-bold hover:bg-slate-300 transition-colors shadow-sm"
+          >
+            <Upload size={18} /> Load a level pack
+          </button>
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 space-y-1 text-center">
+              {errors.map((err, i) => <li key={i}>{err}</li>)}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
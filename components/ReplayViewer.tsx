@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Film, Play, Pause, SkipBack, SkipForward, StepBack, StepForward } from 'lucide-react';
+import { Block, LevelDefinition, Move } from '../types';
+import { BlockComponent } from './BlockComponent';
+import { ExitMarker } from './ExitMarker';
+import { Theme } from '../themes';
+import { replayFrames } from '../services/engine';
+import { MovePlayer, PLAYBACK_SPEEDS } from '../services/movePlayer';
+import { DIRECTION_ARROWS } from '../services/solutionExport';
+import { blockName } from '../services/boardDescription';
+
+interface ReplayViewerProps {
+  level: LevelDefinition;
+  moves: Move[];
+  theme: Theme;
+  onClose: () => void;
+}
+
+// Largest board that fits the modal
+const MAX_BOARD_WIDTH = 320;
+const MAX_UNIT = 56;
+const GAP = 6;
+
+const noop = () => {};
+
+// Watch a recorded move list back: play/pause, single steps, a scrubber and speed
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ level, moves, theme, onClose }) => {
+  const frames: Block[][] = useMemo(() => replayFrames(level, moves), [level, moves]);
+  const length = frames.length - 1; // Moves that replayed
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [player] = useState(() => new MovePlayer(length, (p, isPlaying) => {
+    setPosition(p);
+    setPlaying(isPlaying);
+  }));
+
+  useEffect(() => {
+    player.play();
+    return () => player.pause();
+  }, [player]);
+
+  const unitSize = Math.min(MAX_UNIT, Math.floor((MAX_BOARD_WIDTH - (level.width - 1) * GAP) / level.width));
+  const boardWidth = level.width * unitSize + (level.width - 1) * GAP;
+  const boardHeight = level.height * unitSize + (level.height - 1) * GAP;
+
+  const lastMove = position > 0 ? moves[position - 1] : null;
+  const labels = new Map(level.blocks.map(b => [b.id, blockName(b, level.blocks, theme)]));
+
+  const controlButton = (onClick: () => void, icon: React.ReactNode, title: string) => (
+    <button
+      onClick={onClick}
+      className="p-2 rounded-xl bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors shadow-sm"
+      title={title}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Film className="text-amber-500" /> Replay
+            </h2>
+            <p className="text-sm text-slate-500 mb-8">
+              <strong>{level.name}</strong>, {length} step{length === 1 ? '' : 's'}
+              {length < moves.length && <span className="text-red-600"> (stops at an illegal move)</span>}
+            </p>
+
+            <div className="flex justify-center mb-8">
+              <div
+                className={`relative rounded-xl p-3 shadow-2xl border-b-8 ${theme.board}`}
+                style={{ width: boardWidth + 24, height: boardHeight + 24 }}
+              >
+                <div className="relative w-full h-full pointer-events-none">
+                  {frames[position].map(block => (
+                    <BlockComponent
+                      key={block.id}
+                      block={block}
+                      isSelected={lastMove?.blockId === block.id}
+                      onClick={noop}
+                      unitSize={unitSize}
+                      gap={GAP}
+                      theme={theme}
+                    />
+                  ))}
+                </div>
+                <ExitMarker exit={level.exit} unitSize={unitSize} gap={GAP} theme={theme} />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-xs font-bold text-slate-500 mb-1">
+              <span className="font-mono">Step {position} / {length}</span>
+              <span>{lastMove ? `${labels.get(lastMove.blockId)} ${DIRECTION_ARROWS[lastMove.direction]}` : 'Start'}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={length}
+              value={position}
+              onChange={(e) => { player.pause(); player.seek(Number(e.target.value)); }}
+              aria-label="Replay position"
+              className="w-full accent-amber-500"
+            />
+
+            <div className="flex items-center justify-center gap-2 mt-3">
+              {controlButton(() => { player.pause(); player.seek(0); }, <SkipBack size={18} />, "To start")}
+              {controlButton(() => player.step(-1), <StepBack size={18} />, "Step back")}
+              <button
+                onClick={() => player.toggle()}
+                className="p-3 rounded-xl bg-amber-500 text-white hover:bg-amber-600 transition shadow-lg shadow-amber-500/20"
+                title={playing ? "Pause" : "Play"}
+              >
+                {playing ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" />}
+              </button>
+              {controlButton(() => player.step(1), <StepForward size={18} />, "Step forward")}
+              {controlButton(() => { player.pause(); player.seek(length); }, <SkipForward size={18} />, "To end")}
+              <select
+                value={speed}
+                onChange={(e) => { setSpeed(Number(e.target.value)); player.setSpeed(Number(e.target.value)); }}
+                className="ml-2 bg-slate-100 border border-slate-200 rounded-lg text-xs font-bold text-slate-500 outline-none cursor-pointer px-2 py-2"
+                title="Playback speed"
+              >
+                {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+              </select>
+            </div>
+        </div>
+    </div>
+  );
+};
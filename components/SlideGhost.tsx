@@ -0,0 +1,50 @@
+import React from 'react';
+import { Block, MoveMetric } from '../types';
+import { Theme } from '../themes';
+import { SlideTarget, getCellOffsets } from '../services/engine';
+import { blockName } from '../services/boardDescription';
+
+interface SlideGhostProps {
+  block: Block;
+  blocks: Block[];
+  target: SlideTarget;
+  metric: MoveMetric;
+  theme: Theme;
+  unitSize: number;
+  gap: number;
+  onSelect: (target: SlideTarget) => void;
+}
+
+// Dashed outline of `block` at a position it can slide to. Irregular blocks
+// get one outline per cell so the ghost keeps the piece's shape.
+export const SlideGhost: React.FC<SlideGhostProps> = ({ block, blocks, target, metric, theme, unitSize, gap, onSelect }) => {
+  const step = unitSize + gap;
+  // A slide is one move whatever its length; under STEP every cell counts
+  const cost = metric === MoveMetric.SLIDE ? '1 slide'
+    : `${target.path.length} ${target.path.length === 1 ? 'step' : 'steps'}`;
+  const cellClass = "absolute rounded-xl border-2 border-dashed border-white/50 bg-white/10 hover:bg-white/25 transition-colors";
+
+  return (
+    <button
+      onClick={(e) => { e.stopPropagation(); onSelect(target); }}
+      className="absolute animate-fade-in"
+      style={{
+        left: target.x * step,
+        top: target.y * step,
+        width: block.width * unitSize + (block.width - 1) * gap,
+        height: block.height * unitSize + (block.height - 1) * gap,
+      }}
+      title={`Move ${blockName(block, blocks, theme)} here (${cost})`}
+    >
+      {block.mask
+        ? getCellOffsets(block).map(({ dx, dy }) => (
+            <span
+              key={`${dx},${dy}`}
+              className={cellClass}
+              style={{ left: dx * step, top: dy * step, width: unitSize, height: unitSize }}
+            />
+          ))
+        : <span className={`${cellClass} inset-0`} />}
+    </button>
+  );
+};
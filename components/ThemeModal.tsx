@@ -0,0 +1,67 @@
+import React from 'react';
+import { X, Palette, Check } from 'lucide-react';
+import { BlockType, LevelDefinition } from '../types';
+import { THEMES, Theme, resolveTheme } from '../themes';
+
+interface ThemeModalProps {
+  themeId: string | null; // null follows the level's suggestion
+  level: LevelDefinition;
+  onChange: (themeId: string | null) => void;
+  onClose: () => void;
+}
+
+const SWATCH_TYPES = [BlockType.KING, BlockType.VERTICAL, BlockType.HORIZONTAL, BlockType.PAWN];
+
+// A strip of the theme's pieces on its board
+const Swatch: React.FC<{ theme: Theme }> = ({ theme }) => (
+  <div className={`flex gap-1 p-1.5 rounded-lg border-b-4 ${theme.board}`}>
+    {SWATCH_TYPES.map(type => {
+      const { colors, icon: Icon, iconClassName } = theme.blocks[type];
+      return (
+        <div key={type} className={`w-7 h-7 rounded-md border-b-2 flex items-center justify-center ${colors}`}>
+          <Icon size={16} className={iconClassName} strokeWidth={1.5} />
+        </div>
+      );
+    })}
+  </div>
+);
+
+// Pick how the board and pieces look
+export const ThemeModal: React.FC<ThemeModalProps> = ({ themeId, level, onChange, onClose }) => {
+  const suggested = resolveTheme(null, level);
+
+  const option = (id: string | null, title: string, theme: Theme) => (
+    <button
+      key={id ?? 'level'}
+      onClick={() => onChange(id)}
+      className={`w-full flex items-center gap-3 p-2 rounded-xl border transition-colors ${themeId === id ? 'bg-amber-50 border-amber-400' : 'bg-white border-slate-200 hover:bg-slate-50'}`}
+    >
+      <Swatch theme={theme} />
+      <span className="flex-1 text-left text-sm font-bold text-slate-700">{title}</span>
+      {themeId === id && <Check size={18} className="text-amber-500" />}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-fade-in">
+        <div className="bg-white p-6 rounded-2xl max-w-md w-full shadow-2xl relative max-h-full overflow-auto">
+            <button
+              onClick={onClose}
+              className="absolute top-4 right-4 text-slate-400 hover:text-slate-700"
+            >
+              <X size={24} />
+            </button>
+            <h2 className="text-2xl font-bold text-slate-800 mb-2 flex items-center gap-2">
+              <Palette className="text-amber-500" /> Theme
+            </h2>
+            <p className="text-sm text-slate-500 mb-4">
+              Colors, icons and piece names for the board.
+            </p>
+            <div className="space-y-2">
+              {option(null, `Level's choice (${suggested.name})`, suggested)}
+              {THEMES.map(theme => option(theme.id, theme.name, theme))}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,47 +1,54 @@
-import { Block, BlockType } from './types';
+import { Block, BlockType, Direction, LevelDefinition } from './types';
 
-export const GRID_WIDTH = 4;
-export const GRID_HEIGHT = 5;
+// Id prefixes used for generated blocks: 'k' for the King, then v1, h1, p1, s1...
+export const BLOCK_ID_PREFIXES: Record<BlockType, string> = {
+  [BlockType.KING]: 'k',
+  [BlockType.VERTICAL]: 'v',
+  [BlockType.HORIZONTAL]: 'h',
+  [BlockType.PAWN]: 'p',
+  [BlockType.SHAPE]: 's',
+};
+
+// Labels pieces get unless the level names them
+export const DEFAULT_LABELS: Record<BlockType, string> = {
+  [BlockType.KING]: 'KING',
+  [BlockType.VERTICAL]: 'KNIGHT',
+  [BlockType.HORIZONTAL]: 'GENERAL',
+  [BlockType.PAWN]: 'PAWN',
+  [BlockType.SHAPE]: 'TOWER',
+};
 
 // Helper to create blocks
-const createBlock = (id: string, type: BlockType, x: number, y: number, label?: string): Block => {
+export const createBlock = (id: string, type: BlockType, x: number, y: number, label?: string): Block => {
   let width = 1, height = 1;
-  let l = label;
-  if (type === BlockType.KING) { width = 2; height = 2; l = l || 'KING'; }
-  else if (type === BlockType.VERTICAL) { width = 1; height = 2; l = l || 'KNIGHT'; }
-  else if (type === BlockType.HORIZONTAL) { width = 2; height = 1; l = l || 'GENERAL'; }
-  else if (type === BlockType.PAWN) { width = 1; height = 1; l = l || 'PAWN'; }
-  return { id, type, x, y, width, height, label: l };
+  if (type === BlockType.KING) { width = 2; height = 2; }
+  else if (type === BlockType.VERTICAL) { width = 1; height = 2; }
+  else if (type === BlockType.HORIZONTAL) { width = 2; height = 1; }
+  return { id, type, x, y, width, height, label: label || DEFAULT_LABELS[type] };
 };
 
-export const LEVELS: Record<string, Block[]> = {
-  EASY: [
-    // "The Front Line" - King is closer, fewer obstructions
-    createBlock('k', BlockType.KING, 1, 1),
-    createBlock('v1', BlockType.VERTICAL, 0, 0),
-    createBlock('v2', BlockType.VERTICAL, 3, 0),
-    createBlock('h1', BlockType.HORIZONTAL, 1, 0),
-    createBlock('p1', BlockType.PAWN, 0, 2),
-    createBlock('p2', BlockType.PAWN, 3, 2),
-    createBlock('p3', BlockType.PAWN, 0, 3),
-    createBlock('p4', BlockType.PAWN, 3, 3),
-    createBlock('h2', BlockType.HORIZONTAL, 1, 3), 
-  ],
-  MEDIUM: [
-    // "Containment" - A bit trickier than Easy
-    createBlock('k', BlockType.KING, 1, 0),
-    createBlock('v1', BlockType.VERTICAL, 0, 0),
-    createBlock('v2', BlockType.VERTICAL, 3, 0),
-    createBlock('h1', BlockType.HORIZONTAL, 1, 2),
-    createBlock('v3', BlockType.VERTICAL, 0, 2),
-    createBlock('v4', BlockType.VERTICAL, 3, 2),
-    createBlock('p1', BlockType.PAWN, 1, 3),
-    createBlock('p2', BlockType.PAWN, 2, 3),
-    createBlock('p3', BlockType.PAWN, 0, 4),
-    createBlock('p4', BlockType.PAWN, 3, 4),
-  ],
-  HARD: [
-    // Classic "Heng Dao Li Ma" (The original hard layout)
+// Helper to create irregular blocks from a cell mask ('#' = filled). The mask
+// must be trimmed: every row and column needs at least one filled cell.
+export const createShape = (id: string, x: number, y: number, mask: string[], label = DEFAULT_LABELS[BlockType.SHAPE]): Block => ({
+  id,
+  type: BlockType.SHAPE,
+  x,
+  y,
+  width: Math.max(...mask.map(row => row.length)),
+  height: mask.length,
+  label,
+  mask,
+});
+
+// Heng Dao Li Ma, the classic 4x5 layout: the King escapes through the bottom
+// center. The daily challenge scatters these pieces, so their order is part
+// of every daily puzzle and must not change.
+export const HENG_DAO_LI_MA: LevelDefinition = {
+  id: 'hard',
+  name: 'Heng Dao Li Ma',
+  width: 4,
+  height: 5,
+  blocks: [
     createBlock('k', BlockType.KING, 1, 0),
     createBlock('v1', BlockType.VERTICAL, 0, 0),
     createBlock('v2', BlockType.VERTICAL, 3, 0),
@@ -52,9 +59,8 @@ export const LEVELS: Record<string, Block[]> = {
     createBlock('p2', BlockType.PAWN, 2, 3),
     createBlock('p3', BlockType.PAWN, 0, 4),
     createBlock('p4', BlockType.PAWN, 3, 4),
-  ]
+  ],
+  targetId: 'k',
+  goal: { x: 1, y: 3, width: 2, height: 2 },
+  exit: { side: Direction.DOWN, offset: 1, length: 2 },
 };
-
-export const INITIAL_BLOCKS = LEVELS.HARD; // Default
-
-export const WIN_COORDS = { x: 1, y: 3 }; // Top-left of King must be here to win
\ No newline at end of file
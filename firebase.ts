@@ -1,4 +1,7 @@
 import { initializeApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { connectFunctionsEmulator, getFunctions } from 'firebase/functions';
 
 const requiredEnv = [
   'VITE_FIREBASE_API_KEY',
@@ -11,19 +14,43 @@ const requiredEnv = [
 
 // Use a loose record view for presence checks to avoid TS index errors
 const env = import.meta.env as Record<string, string | undefined>;
-const missing = requiredEnv.filter((key) => !env[key]);
+
+// VITE_FIREBASE_EMULATORS=true points everything at the local emulator suite
+// (`firebase emulators:start`). Emulators accept any "demo-" project without
+// real credentials, so no other Firebase env vars are needed in that mode.
+export const usingEmulators = env.VITE_FIREBASE_EMULATORS === 'true';
+
+const missing = usingEmulators ? [] : requiredEnv.filter((key) => !env[key]);
 if (missing.length) {
   // Fail fast if env is misconfigured so secrets never fall back to literals
   throw new Error(`Missing Firebase env vars: ${missing.join(', ')}`);
 }
 
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID
-};
+const firebaseConfig = usingEmulators
+  ? {
+      apiKey: 'demo-api-key',
+      authDomain: 'demo-royal-escape.firebaseapp.com',
+      projectId: 'demo-royal-escape',
+      appId: 'demo-royal-escape'
+    }
+  : {
+      apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+      authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+      projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+      storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+      messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+      appId: import.meta.env.VITE_FIREBASE_APP_ID
+    };
 
 export const firebaseApp = initializeApp(firebaseConfig);
+export const auth = getAuth(firebaseApp);
+export const db = getFirestore(firebaseApp);
+export const functions = getFunctions(firebaseApp);
+
+if (usingEmulators) {
+  // Ports match the "emulators" block in firebase.json
+  const host = env.VITE_FIREBASE_EMULATOR_HOST || '127.0.0.1';
+  connectAuthEmulator(auth, `http://${host}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, host, 8080);
+  connectFunctionsEmulator(functions, host, 5001);
+}
@@ -0,0 +1,61 @@
+import { initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { HttpsError, onCall } from 'firebase-functions/v2/https';
+import { BUILTIN_PACKS } from '../../services/levelPacks';
+import { ScoreSubmission, verifySubmission } from '../../services/verification';
+
+// Leaderboard writes happen only here. The client sends its full move list,
+// which is replayed with the same engine the game runs on (bundled in from
+// ../services by esbuild) before anything reaches Firestore.
+//
+// Entries live at leaderboards/{levelId with '/' as ':'}/entries/{uid}_{metric}
+// and keep each player's fewest moves and fastest time with the move list
+// that set each one.
+
+initializeApp();
+const db = getFirestore();
+
+const isSubmission = (data: unknown): data is ScoreSubmission => {
+  const d = data as Partial<ScoreSubmission> | null;
+  return !!d && typeof d.levelId === 'string' && typeof d.layout === 'string' &&
+    typeof d.metric === 'string' && typeof d.moves === 'string' &&
+    typeof d.timeMs === 'number' && Number.isFinite(d.timeMs) && d.timeMs >= 0;
+};
+
+export const submitScore = onCall(async (request) => {
+  if (!request.auth) throw new HttpsError('unauthenticated', 'Sign in to post scores.');
+  if (!isSubmission(request.data)) throw new HttpsError('invalid-argument', 'Malformed score.');
+  const submission = request.data;
+
+  const { moves, error } = verifySubmission(BUILTIN_PACKS, submission);
+  if (moves === null) throw new HttpsError('failed-precondition', `Score rejected: ${error}`);
+
+  const { uid, token } = request.auth;
+  const ref = db
+    .collection('leaderboards').doc(submission.levelId.replace(/\//g, ':'))
+    .collection('entries').doc(`${uid}_${submission.metric}`);
+  const timeMs = Math.round(submission.timeMs);
+
+  const improved = await db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    const previous = snapshot.data();
+    const fewerMoves = !previous || moves < previous.moves;
+    const faster = !previous || timeMs < previous.timeMs;
+    if (!fewerMoves && !faster) return false;
+
+    tx.set(ref, {
+      uid,
+      name: (token.name as string | undefined) || 'Anonymous',
+      metric: submission.metric,
+      layout: submission.layout,
+      moves: fewerMoves ? moves : previous!.moves,
+      movesReplay: fewerMoves ? submission.moves : previous!.movesReplay,
+      timeMs: faster ? timeMs : previous!.timeMs,
+      timeReplay: faster ? submission.moves : previous!.timeReplay,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  return { moves, improved };
+});
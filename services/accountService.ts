@@ -0,0 +1,25 @@
+import { GoogleAuthProvider, User, onAuthStateChanged, signInWithPopup, signOut } from 'firebase/auth';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { auth, db } from '../firebase';
+import { PackProgress } from '../types';
+
+// Optional sign-in and cross-device progress. Playing never requires an
+// account; signing in merges local progress with what is stored under
+// users/{uid} and keeps that document up to date afterwards.
+
+export const signIn = async (): Promise<User> => {
+  const { user } = await signInWithPopup(auth, new GoogleAuthProvider());
+  return user;
+};
+
+export const signOutUser = () => signOut(auth);
+
+export const watchUser = (callback: (user: User | null) => void) => onAuthStateChanged(auth, callback);
+
+export const pullProgress = async (uid: string): Promise<PackProgress> => {
+  const snapshot = await getDoc(doc(db, 'users', uid));
+  return (snapshot.data()?.progress as PackProgress | undefined) ?? {};
+};
+
+export const pushProgress = (uid: string, progress: PackProgress) =>
+  setDoc(doc(db, 'users', uid), { progress, updatedAt: serverTimestamp() }, { merge: true });
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { MoveMetric } from '../types';
+import { HENG_DAO_LI_MA } from '../constants';
+import { isAtGoal } from './engine';
+import { analyzeStateSpace, exploreStateGraph, positionAt } from './analysis';
+
+const level = HENG_DAO_LI_MA;
+
+describe('analyzeStateSpace', () => {
+  it.each([
+    [MoveMetric.STEP, 116],
+    [MoveMetric.SLIDE, 81],
+  ])('reports the full graph of Heng Dao Li Ma under %s', (metric, optimum) => {
+    const report = analyzeStateSpace(level, level.blocks, metric);
+    expect(report.mirrored).toBe(true);
+    expect(report.reachableStates).toBe(13011);
+    expect(report.winningStates).toBe(484);
+    expect(report.optimalLength).toBe(optimum);
+  });
+
+  it('counts exactly the positions with the target at the goal', () => {
+    const report = analyzeStateSpace(level);
+    const { result } = exploreStateGraph(level, level.blocks, MoveMetric.STEP, undefined, true);
+    let winning = 0;
+    for (let s = 0; s < result.stateCount; s++) {
+      if (isAtGoal(level, positionAt(level.blocks, result, s))) winning++;
+    }
+    expect(report.winningStates).toBe(winning);
+  });
+});
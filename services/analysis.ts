@@ -0,0 +1,163 @@
+import { Block, LevelDefinition, MoveMetric } from '../types';
+import { SearchProgress, SearchResult, isGoalPosition, searchStates } from './solver';
+
+// Exhaustive look at everything reachable from a layout, for rating levels by
+// their actual state graph instead of by feel. Distances are in `metric`
+// moves. When the solver folds mirror images together (symmetric levels) the
+// counts are of positions up to mirroring, flagged by `mirrored`.
+//
+// The report covers the whole graph: play continues past winning positions
+// as if reaching the goal did not end the game, so every winning position and
+// everything beyond one counts as reachable.
+
+// How many dead-end positions are returned as examples; the count covers all
+const MAX_DEAD_END_SAMPLES = 20;
+
+export interface StateSpaceReport {
+  metric: MoveMetric;
+  mirrored: boolean;
+  reachableStates: number;
+  winningStates: number;
+  optimalLength: number | null; // null when the layout cannot be solved
+  farthestDistance: number | null; // Moves from the farthest position to its nearest win
+  farthestPosition: Block[] | null;
+  branching: number; // Average distinct moves out of an unsolved position
+  deadEnds: number; // Unsolved positions whose only way on is back
+  deadEndSamples: Block[][];
+}
+
+// The explored graph with per-state figures, indexed like the search result
+export interface StateGraph {
+  result: SearchResult;
+  depth: Int32Array; // Moves from the start
+  winning: Uint8Array;
+  toGoal: Int32Array; // Moves to the nearest win, -1 if none is reachable
+  degree: Int32Array; // Distinct neighbouring positions
+}
+
+// Blocks of `blocks` moved to where they stand in `state`
+export const positionAt = (blocks: Block[], result: SearchResult, state: number): Block[] => {
+  const base = state * blocks.length * 2;
+  return blocks.map((b, i) => ({ ...b, x: result.positions[base + i * 2], y: result.positions[base + i * 2 + 1] }));
+};
+
+// The graph reachable from `blocks`. `expandGoals` plays on past wins (the
+// report's view); the generator leaves it off and sees only real games.
+export const exploreStateGraph = (
+  level: LevelDefinition,
+  blocks: Block[] = level.blocks,
+  metric = MoveMetric.STEP,
+  onProgress?: (progress: SearchProgress) => void,
+  expandGoals = false
+): StateGraph => {
+  // Directed edges as parallel arrays, grown like the solver's state arrays
+  let edgeFrom = new Int32Array(4096);
+  let edgeTo = new Int32Array(4096);
+  let edgeCount = 0;
+  const onEdge = (from: number, to: number) => {
+    if (from === to) return;
+    if (edgeCount === edgeFrom.length) {
+      const f = new Int32Array(edgeCount * 2); f.set(edgeFrom); edgeFrom = f;
+      const t = new Int32Array(edgeCount * 2); t.set(edgeTo); edgeTo = t;
+    }
+    edgeFrom[edgeCount] = from;
+    edgeTo[edgeCount] = to;
+    edgeCount++;
+  };
+
+  const result = searchStates(level, blocks, { metric, expandGoals, onProgress, onEdge });
+  const { stateCount, parents } = result;
+  const { targetIndex } = result.space;
+
+  // Depth from the start follows parent pointers, which always point back
+  const depth = new Int32Array(stateCount);
+  for (let s = 1; s < stateCount; s++) depth[s] = depth[parents[s]] + 1;
+
+  const winning = new Uint8Array(stateCount);
+  for (let s = 0; s < stateCount && targetIndex !== -1; s++) {
+    const base = (s * blocks.length + targetIndex) * 2;
+    if (isGoalPosition(result.space, result.positions[base], result.positions[base + 1])) winning[s] = 1;
+  }
+
+  // Incoming edges grouped by target state; duplicates are harmless to the BFS
+  const inStart = new Int32Array(stateCount + 1);
+  for (let e = 0; e < edgeCount; e++) inStart[edgeTo[e] + 1]++;
+  for (let s = 0; s < stateCount; s++) inStart[s + 1] += inStart[s];
+  const inFrom = new Int32Array(edgeCount);
+  const fill = inStart.slice(0, stateCount);
+  for (let e = 0; e < edgeCount; e++) inFrom[fill[edgeTo[e]]++] = edgeFrom[e];
+
+  // Distance to the nearest win: BFS backwards from every winning state
+  const toGoal = new Int32Array(stateCount).fill(-1);
+  const queue = new Int32Array(stateCount);
+  let tail = 0;
+  for (let s = 0; s < stateCount; s++) {
+    if (winning[s]) { toGoal[s] = 0; queue[tail++] = s; }
+  }
+  for (let head = 0; head < tail; head++) {
+    const s = queue[head];
+    for (let e = inStart[s]; e < inStart[s + 1]; e++) {
+      const p = inFrom[e];
+      if (toGoal[p] !== -1) continue;
+      toGoal[p] = toGoal[s] + 1;
+      queue[tail++] = p;
+    }
+  }
+
+  // Edges arrive grouped by their source state because states expand in order
+  const degree = new Int32Array(stateCount);
+  const neighbours = new Set<number>();
+  let e = 0;
+  for (let s = 0; s < stateCount; s++) {
+    neighbours.clear();
+    while (e < edgeCount && edgeFrom[e] === s) neighbours.add(edgeTo[e++]);
+    degree[s] = neighbours.size;
+  }
+
+  return { result, depth, winning, toGoal, degree };
+};
+
+export const analyzeStateSpace = (
+  level: LevelDefinition,
+  blocks: Block[] = level.blocks,
+  metric = MoveMetric.STEP,
+  onProgress?: (progress: SearchProgress) => void
+): StateSpaceReport => {
+  const { result, depth, winning, toGoal, degree } = exploreStateGraph(level, blocks, metric, onProgress, true);
+  const { stateCount } = result;
+
+  let winningStates = 0;
+  let optimalLength: number | null = null;
+  let farthest = -1;
+  let unsolved = 0;
+  let totalDegree = 0;
+  let deadEnds = 0;
+  const deadEndSamples: Block[][] = [];
+  for (let s = 0; s < stateCount; s++) {
+    if (winning[s]) {
+      winningStates++;
+      if (optimalLength === null || depth[s] < optimalLength) optimalLength = depth[s];
+      continue;
+    }
+    if (toGoal[s] !== -1 && (farthest === -1 || toGoal[s] > toGoal[farthest])) farthest = s;
+    unsolved++;
+    totalDegree += degree[s];
+    // Dead end: exactly one neighbouring position
+    if (degree[s] !== 1) continue;
+    deadEnds++;
+    if (deadEndSamples.length < MAX_DEAD_END_SAMPLES) deadEndSamples.push(positionAt(blocks, result, s));
+  }
+
+  return {
+    metric,
+    mirrored: result.space.mirrorCodes !== null,
+    reachableStates: stateCount,
+    winningStates,
+    optimalLength,
+    farthestDistance: farthest === -1 ? null : toGoal[farthest],
+    farthestPosition: farthest === -1 ? null : positionAt(blocks, result, farthest),
+    branching: unsolved ? totalDegree / unsolved : 0,
+    deadEnds,
+    deadEndSamples,
+  };
+};
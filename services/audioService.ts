@@ -16,6 +16,10 @@ class AudioController {
     return this.isMuted;
   }
 
+  setMuted(muted: boolean) {
+    this.isMuted = muted;
+  }
+
   playSelect() {
     if (this.isMuted) return;
     this.init();
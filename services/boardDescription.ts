@@ -0,0 +1,100 @@
+import { Block, Direction, LevelDefinition } from '../types';
+import { getBlockCells } from './engine';
+import { Theme, blockLabel } from '../themes';
+
+// Spoken text for screen readers: names for blocks and cells, moves as they
+// happen and a description of a whole position. Rows and columns count from 1
+// at the top left, the way a grid is read out. Blocks are named by the label
+// the theme draws on them, so what is heard matches what is shown.
+
+const DIRECTION_WORDS: Record<Direction, string> = {
+  [Direction.UP]: 'up',
+  [Direction.DOWN]: 'down',
+  [Direction.LEFT]: 'left',
+  [Direction.RIGHT]: 'right',
+};
+
+const SIDE_WORDS: Record<Direction, string> = {
+  [Direction.UP]: 'top',
+  [Direction.DOWN]: 'bottom',
+  [Direction.LEFT]: 'left',
+  [Direction.RIGHT]: 'right',
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// "2" or "2 to 3"
+const span = (from: number, length: number) => length === 1 ? `${from + 1}` : `${from + 1} to ${from + length}`;
+
+export const directionWord = (direction: Direction) => DIRECTION_WORDS[direction];
+
+const spokenLabel = (theme: Theme, block: Block) => blockLabel(theme, block) || block.type;
+
+// "Knight", or "Knight 2" when other blocks share the label
+export const blockName = (block: Block, blocks: Block[], theme: Theme): string => {
+  const label = spokenLabel(theme, block);
+  const sharing = blocks.filter(b => spokenLabel(theme, b) === label);
+  const name = capitalize(label);
+  return sharing.length > 1 ? `${name} ${sharing.findIndex(b => b.id === block.id) + 1}` : name;
+};
+
+export const cellName = (x: number, y: number) => `row ${y + 1}, column ${x + 1}`;
+
+export const blockAt = (blocks: Block[], x: number, y: number): Block | undefined =>
+  blocks.find(b => getBlockCells(b).some(c => c.x === x && c.y === y));
+
+// A route of unit shifts with runs folded together: "down 2, then left"
+export const describePath = (path: Direction[]): string => {
+  const runs: { direction: Direction; length: number }[] = [];
+  for (const direction of path) {
+    const last = runs[runs.length - 1];
+    if (last?.direction === direction) last.length++;
+    else runs.push({ direction, length: 1 });
+  }
+  return runs
+    .map(({ direction, length }) => length === 1 ? DIRECTION_WORDS[direction] : `${DIRECTION_WORDS[direction]} ${length}`)
+    .join(', then ');
+};
+
+// "Knight moved down, 12 moves"
+export const describeMove = (block: Block, blocks: Block[], theme: Theme, path: Direction[], moves: number): string =>
+  `${blockName(block, blocks, theme)} moved ${describePath(path)}, ${plural(moves, 'move')}`;
+
+export const describeCell = (blocks: Block[], theme: Theme, x: number, y: number): string => {
+  const block = blockAt(blocks, x, y);
+  return `${block ? blockName(block, blocks, theme) : 'Empty'}, ${cellName(x, y)}`;
+};
+
+// Every block with its size and top-left cell, the free cells, the exit and
+// what has to reach it
+export const describeBoard = (level: LevelDefinition, blocks: Block[], theme: Theme): string => {
+  const lines = [`${level.name}: ${plural(level.width, 'column')} by ${plural(level.height, 'row')}.`];
+
+  for (const block of blocks) {
+    const shape = block.mask ? 'an irregular piece' : `${block.width} by ${block.height}`;
+    lines.push(`${blockName(block, blocks, theme)}, ${shape}, from ${cellName(block.x, block.y)}.`);
+  }
+
+  const empty: string[] = [];
+  for (let y = 0; y < level.height; y++) {
+    for (let x = 0; x < level.width; x++) {
+      if (!blockAt(blocks, x, y)) empty.push(cellName(x, y));
+    }
+  }
+  lines.push(empty.length ? `Empty: ${empty.join('; ')}.` : 'No empty cells.');
+
+  const { side, offset, length } = level.exit;
+  const along = side === Direction.UP || side === Direction.DOWN ? 'column' : 'row';
+  lines.push(`The exit is on the ${SIDE_WORDS[side]} edge at ${along}${length > 1 ? 's' : ''} ${span(offset, length)}.`);
+
+  const target = blocks.find(b => b.id === level.targetId);
+  const { goal } = level;
+  if (target) {
+    const rows = `row${goal.height > 1 ? 's' : ''} ${span(goal.y, goal.height)}`;
+    const columns = `column${goal.width > 1 ? 's' : ''} ${span(goal.x, goal.width)}`;
+    lines.push(`Get ${blockName(target, blocks, theme)} to ${rows}, ${columns}.`);
+  }
+  return lines.join(' ');
+};
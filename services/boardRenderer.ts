@@ -0,0 +1,189 @@
+import { Block, BlockType, Direction, LevelDefinition } from '../types';
+import { getCellOffsets, isMaskCellFilled } from './engine';
+import { IndexedFrame, Palette } from './gifEncoder';
+
+// Draws boards into palette-indexed pixel buffers for exports. Everything is
+// integer arithmetic on a fixed palette with no anti-aliasing and no text, so
+// a given position always produces the same pixels on any machine; the
+// canvas only ever receives finished buffers.
+
+// Palette indices
+enum Ink {
+  BACKGROUND,
+  FRAME,
+  FRAME_EDGE,
+  EXIT,
+  HIGHLIGHT,
+  KING, KING_EDGE,
+  HORIZONTAL, HORIZONTAL_EDGE,
+  VERTICAL, VERTICAL_EDGE,
+  PAWN, PAWN_EDGE,
+  SHAPE, SHAPE_EDGE,
+}
+
+// The board's colors from the game (Tailwind slate, amber, emerald, blue, violet)
+export const BOARD_PALETTE: Palette = [
+  0xf8fafc, 0x1e293b, 0x0f172a, 0x94a3b8, 0xffffff,
+  0xf59e0b, 0xb45309,
+  0x10b981, 0x047857,
+  0x3b82f6, 0x1d4ed8,
+  0x94a3b8, 0x475569,
+  0x8b5cf6, 0x6d28d9,
+];
+
+const BLOCK_INKS: Record<BlockType, [Ink, Ink]> = {
+  [BlockType.KING]: [Ink.KING, Ink.KING_EDGE],
+  [BlockType.HORIZONTAL]: [Ink.HORIZONTAL, Ink.HORIZONTAL_EDGE],
+  [BlockType.VERTICAL]: [Ink.VERTICAL, Ink.VERTICAL_EDGE],
+  [BlockType.PAWN]: [Ink.PAWN, Ink.PAWN_EDGE],
+  [BlockType.SHAPE]: [Ink.SHAPE, Ink.SHAPE_EDGE],
+};
+
+export interface RenderOptions {
+  unitSize?: number; // Pixels per cell
+  gap?: number; // Pixels between cells
+}
+
+// A block drawn at a possibly fractional position, for in-between frames
+export interface PlacedBlock {
+  block: Block;
+  x: number;
+  y: number;
+  highlighted: boolean;
+}
+
+interface Geometry {
+  unit: number;
+  gap: number;
+  edge: number; // Darker strip along each block's bottom
+  radius: number;
+  margin: number; // Room around the frame for the exit marker
+  padding: number; // Frame to first cell
+  width: number;
+  height: number;
+}
+
+const geometry = (level: LevelDefinition, { unitSize = 48, gap = 4 }: RenderOptions): Geometry => {
+  const unit = Math.max(8, Math.round(unitSize));
+  const padding = Math.max(4, Math.round(unit / 6));
+  const margin = Math.max(8, Math.round(unit / 3));
+  const boardW = level.width * unit + (level.width - 1) * gap;
+  const boardH = level.height * unit + (level.height - 1) * gap;
+  return {
+    unit,
+    gap,
+    edge: Math.max(2, Math.round(unit / 12)),
+    radius: Math.max(2, Math.round(unit / 5)),
+    margin,
+    padding,
+    width: boardW + 2 * (padding + margin),
+    height: boardH + 2 * (padding + margin),
+  };
+};
+
+// Corner radii: top-left, top-right, bottom-right, bottom-left
+type Radii = [number, number, number, number];
+
+const fillRoundRect = (frame: IndexedFrame, x: number, y: number, w: number, h: number, radii: Radii, ink: Ink) => {
+  const { width, height, pixels } = frame;
+  for (let py = Math.max(0, y); py < Math.min(height, y + h); py++) {
+    for (let px = Math.max(0, x); px < Math.min(width, x + w); px++) {
+      const dx = px - x, dy = py - y;
+      // Distance from the nearest corner's circle centre, if inside a corner square
+      const r = dx < w / 2 ? (dy < h / 2 ? radii[0] : radii[3]) : (dy < h / 2 ? radii[1] : radii[2]);
+      if (r > 0) {
+        const cx = dx < r ? r - dx - 0.5 : dx >= w - r ? dx - (w - r) + 0.5 : 0;
+        const cy = dy < r ? r - dy - 0.5 : dy >= h - r ? dy - (h - r) + 0.5 : 0;
+        if (cx > 0 && cy > 0 && cx * cx + cy * cy > r * r) continue;
+      }
+      pixels[py * width + px] = ink;
+    }
+  }
+};
+
+// Block body with its darker bottom strip, like the on-screen pieces
+const drawPiece = (frame: IndexedFrame, g: Geometry, x: number, y: number, w: number, h: number, radii: Radii, inks: [Ink, Ink], openBottom: boolean) => {
+  fillRoundRect(frame, x, y, w, h, radii, inks[1]);
+  fillRoundRect(frame, x, y, w, openBottom ? h : h - g.edge, radii, inks[0]);
+};
+
+const drawBlock = (frame: IndexedFrame, g: Geometry, { block, x, y, highlighted }: PlacedBlock) => {
+  const step = g.unit + g.gap;
+  const left = g.margin + g.padding + Math.round(x * step);
+  const top = g.margin + g.padding + Math.round(y * step);
+  const inks = BLOCK_INKS[block.type];
+  const r = g.radius;
+
+  if (!block.mask) {
+    const w = block.width * g.unit + (block.width - 1) * g.gap;
+    const h = block.height * g.unit + (block.height - 1) * g.gap;
+    if (highlighted) fillRoundRect(frame, left - 2, top - 2, w + 4, h + 4, [r + 2, r + 2, r + 2, r + 2], Ink.HIGHLIGHT);
+    drawPiece(frame, g, left, top, w, h, [r, r, r, r], inks, false);
+    return;
+  }
+
+  // Masked pieces: one cell at a time, stretched over the gap to filled
+  // neighbours, rounding only the outer corners
+  const cells = getCellOffsets(block).map(({ dx, dy }) => {
+    const up = isMaskCellFilled(block, dx, dy - 1);
+    const down = isMaskCellFilled(block, dx, dy + 1);
+    const leftN = isMaskCellFilled(block, dx - 1, dy);
+    const rightN = isMaskCellFilled(block, dx + 1, dy);
+    return {
+      x: left + dx * step,
+      y: top + dy * step,
+      w: g.unit + (rightN ? g.gap : 0),
+      h: g.unit + (down ? g.gap : 0),
+      radii: [up || leftN ? 0 : r, up || rightN ? 0 : r, down || rightN ? 0 : r, down || leftN ? 0 : r] as Radii,
+      down,
+    };
+  });
+  if (highlighted) {
+    for (const c of cells) fillRoundRect(frame, c.x - 2, c.y - 2, c.w + 4, c.h + 4, c.radii.map(v => v && v + 2) as Radii, Ink.HIGHLIGHT);
+  }
+  for (const c of cells) drawPiece(frame, g, c.x, c.y, c.w, c.h, c.radii, inks, c.down);
+};
+
+const drawExit = (frame: IndexedFrame, g: Geometry, level: LevelDefinition) => {
+  const { side, offset, length } = level.exit;
+  const thickness = Math.max(3, Math.round(g.margin / 3));
+  const start = g.margin + g.padding + offset * (g.unit + g.gap);
+  const span = length * g.unit + (length - 1) * g.gap;
+  const gapToFrame = Math.round((g.margin - thickness) / 2);
+  const radii: Radii = [1, 1, 1, 1];
+  if (side === Direction.UP) fillRoundRect(frame, start, gapToFrame, span, thickness, radii, Ink.EXIT);
+  else if (side === Direction.DOWN) fillRoundRect(frame, start, g.height - gapToFrame - thickness, span, thickness, radii, Ink.EXIT);
+  else if (side === Direction.LEFT) fillRoundRect(frame, gapToFrame, start, thickness, span, radii, Ink.EXIT);
+  else fillRoundRect(frame, g.width - gapToFrame - thickness, start, thickness, span, radii, Ink.EXIT);
+};
+
+export const frameSize = (level: LevelDefinition, options: RenderOptions = {}) => {
+  const { width, height } = geometry(level, options);
+  return { width, height };
+};
+
+export const renderBoard = (level: LevelDefinition, blocks: PlacedBlock[], options: RenderOptions = {}): IndexedFrame => {
+  const g = geometry(level, options);
+  const frame: IndexedFrame = { width: g.width, height: g.height, pixels: new Uint8Array(g.width * g.height) };
+  const frameRadius = g.padding + Math.round(g.radius / 2);
+  const inner = g.height - 2 * g.margin;
+  fillRoundRect(frame, g.margin, g.margin, g.width - 2 * g.margin, inner, [frameRadius, frameRadius, frameRadius, frameRadius], Ink.FRAME_EDGE);
+  fillRoundRect(frame, g.margin, g.margin, g.width - 2 * g.margin, inner - g.edge, [frameRadius, frameRadius, frameRadius, frameRadius], Ink.FRAME);
+  drawExit(frame, g, level);
+  // Highlighted piece last so its outline sits over its neighbours
+  for (const placed of [...blocks].sort((a, b) => Number(a.highlighted) - Number(b.highlighted))) drawBlock(frame, g, placed);
+  return frame;
+};
+
+// RGBA pixels for a canvas ImageData
+export const frameToRgba = (frame: IndexedFrame, palette: Palette = BOARD_PALETTE): Uint8ClampedArray => {
+  const rgba = new Uint8ClampedArray(frame.pixels.length * 4);
+  frame.pixels.forEach((index, i) => {
+    const color = palette[index];
+    rgba[i * 4] = color >> 16;
+    rgba[i * 4 + 1] = (color >> 8) & 0xff;
+    rgba[i * 4 + 2] = color & 0xff;
+    rgba[i * 4 + 3] = 255;
+  });
+  return rgba;
+};
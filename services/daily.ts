@@ -0,0 +1,107 @@
+import { LevelDefinition, MoveMetric } from '../types';
+import { HENG_DAO_LI_MA } from '../constants';
+import { GeneratedPuzzle, GeneratorProgress } from './generator';
+import { SolverTask, generateAsync } from './solverClient';
+import { formatDuration } from './stopwatch';
+
+// The daily challenge: one generated puzzle per calendar day, the same for
+// everyone. The date string seeds the generator, and the generator is capped
+// by attempts rather than time so a slow machine still lands on the same
+// board. Only the first finish of each day is recorded.
+
+export interface DailyRecord {
+  metric: MoveMetric; // What `moves` and `par` count
+  moves: number;
+  timeMs: number;
+  stars: number;
+  par: number | null; // null if the solver had not finished
+  assisted: boolean;
+}
+
+// Keyed by date ('2026-10-19')
+export type DailyHistory = Record<string, DailyRecord>;
+
+// Dailies start out counted in steps so most results compare directly
+export const DAILY_METRIC = MoveMetric.STEP;
+
+const DAILY_TEMPLATE = HENG_DAO_LI_MA;
+const DAILY_MIN_MOVES = 30;
+const DAILY_MAX_MOVES = 60;
+const DAILY_MAX_ATTEMPTS = 40;
+const DAILY_ID_PREFIX = 'daily-';
+
+// Local calendar date, so the day rolls over at the player's midnight
+export const dailyKey = (date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isDailyLevel = (levelId: string) => levelId.startsWith(DAILY_ID_PREFIX);
+
+export const dailyKeyOf = (levelId: string) => isDailyLevel(levelId) ? levelId.slice(DAILY_ID_PREFIX.length) : null;
+
+// FNV-1a over the date string
+const seedFor = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const generateDaily = (
+  key: string,
+  onProgress?: (progress: GeneratorProgress) => void
+): SolverTask<GeneratedPuzzle | null> => {
+  const task = generateAsync(DAILY_TEMPLATE, {
+    minMoves: DAILY_MIN_MOVES,
+    maxMoves: DAILY_MAX_MOVES,
+    metric: DAILY_METRIC,
+    seed: seedFor(key),
+    timeLimitMs: Infinity,
+    maxAttempts: DAILY_MAX_ATTEMPTS,
+  }, onProgress);
+  const promise = task.promise.then(puzzle => puzzle && {
+    ...puzzle,
+    level: { ...puzzle.level, id: `${DAILY_ID_PREFIX}${key}`, name: `Daily ${key}` } as LevelDefinition,
+  });
+  return { promise, cancel: task.cancel };
+};
+
+// History with today's first finish added; later finishes leave it unchanged
+export const recordDaily = (history: DailyHistory, key: string, record: DailyRecord): DailyHistory =>
+  history[key] ? history : { ...history, [key]: record };
+
+const shiftDay = (key: string, days: number): string => {
+  const [y, m, d] = key.split('-').map(Number);
+  return dailyKey(new Date(y, m - 1, d + days));
+};
+
+// Days in a row with a finished daily, ending today, or yesterday while
+// today's is still open
+export const currentStreak = (history: DailyHistory, today = dailyKey()): number => {
+  let day = history[today] ? today : shiftDay(today, -1);
+  let streak = 0;
+  for (; history[day]; day = shiftDay(day, -1)) streak++;
+  return streak;
+};
+
+export const longestStreak = (history: DailyHistory): number => {
+  let longest = 0;
+  for (const key of Object.keys(history)) {
+    // Walk each run from its first day only
+    if (history[shiftDay(key, -1)]) continue;
+    let length = 0;
+    for (let day = key; history[day]; day = shiftDay(day, 1)) length++;
+    longest = Math.max(longest, length);
+  }
+  return longest;
+};
+
+// Text to paste into chat, spoiler-free
+export const dailySummary = (key: string, record: DailyRecord, streak: number): string => [
+  `Royal Escape Daily ${key}`,
+  '⭐'.repeat(record.stars) + '☆'.repeat(3 - record.stars) + (record.assisted ? ' (assisted)' : ''),
+  `🧩 ${record.moves} ${record.metric === MoveMetric.SLIDE ? 'slides' : 'steps'}${record.par === null ? '' : ` (par ${record.par})`}`,
+  `⏱️ ${formatDuration(record.timeMs)}`,
+  ...(streak > 1 ? [`🔥 ${streak}-day streak`] : []),
+].join('\n');
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { Direction, MoveMetric } from '../types';
+import { HENG_DAO_LI_MA } from '../constants';
+import { applyMove, applySlide, countMoves, createGameState, legalMoves, undo, undoSlide } from './engine';
+import { redoMoves } from './historyTree';
+
+const { UP, DOWN, LEFT, RIGHT } = Direction;
+const level = HENG_DAO_LI_MA;
+
+const positionOf = (state: ReturnType<typeof createGameState>, id: string) => {
+  const block = state.blocks.find(b => b.id === id)!;
+  return { x: block.x, y: block.y };
+};
+
+describe('applyMove', () => {
+  it('shifts a block into a free cell and records the move', () => {
+    const start = createGameState(level);
+    const next = applyMove(start, { blockId: 'p1', direction: DOWN })!;
+    expect(positionOf(next, 'p1')).toEqual({ x: 1, y: 4 });
+    expect(next.moves).toBe(1);
+    expect(next.history).toEqual([{ blockId: 'p1', direction: DOWN }]);
+    expect(positionOf(start, 'p1')).toEqual({ x: 1, y: 3 });
+  });
+
+  it('rejects blocked, out-of-bounds and unknown moves', () => {
+    const start = createGameState(level);
+    expect(applyMove(start, { blockId: 'k', direction: DOWN })).toBeNull();
+    expect(applyMove(start, { blockId: 'v1', direction: LEFT })).toBeNull();
+    expect(applyMove(start, { blockId: 'nope', direction: UP })).toBeNull();
+  });
+
+  it('only offers the moves applyMove accepts', () => {
+    const start = createGameState(level);
+    expect(legalMoves(start)).toEqual(expect.arrayContaining([
+      { blockId: 'p1', direction: DOWN },
+      { blockId: 'p2', direction: DOWN },
+      { blockId: 'p3', direction: RIGHT },
+      { blockId: 'p4', direction: LEFT },
+    ]));
+    expect(legalMoves(start)).toHaveLength(4);
+    for (const move of legalMoves(start)) expect(applyMove(start, move)).not.toBeNull();
+  });
+});
+
+describe('applySlide', () => {
+  const slide = [{ blockId: 'p3', direction: RIGHT }, { blockId: 'p3', direction: RIGHT }];
+
+  it('applies every shift as one history entry', () => {
+    const next = applySlide(createGameState(level), slide)!;
+    expect(positionOf(next, 'p3')).toEqual({ x: 2, y: 4 });
+    expect(next.history).toHaveLength(2);
+    expect(next.tree.nodes[next.tree.current].chained).toBe(true);
+  });
+
+  it('is all or nothing', () => {
+    expect(applySlide(createGameState(level), [...slide, { blockId: 'p3', direction: RIGHT }])).toBeNull();
+    expect(applySlide(createGameState(level), [])).toBeNull();
+  });
+
+  it('counts as one move under SLIDE and one per shift under STEP', () => {
+    expect(applySlide(createGameState(level, MoveMetric.SLIDE), slide)!.moves).toBe(1);
+    expect(applySlide(createGameState(level, MoveMetric.STEP), slide)!.moves).toBe(2);
+  });
+});
+
+describe('undo', () => {
+  it('restores the previous position and move count', () => {
+    const start = createGameState(level);
+    const moved = applyMove(start, { blockId: 'p2', direction: DOWN })!;
+    const back = undo(moved);
+    expect(back.blocks).toEqual(start.blocks);
+    expect(back.moves).toBe(0);
+    expect(back.history).toEqual([]);
+  });
+
+  it('leaves a fresh game alone', () => {
+    const start = createGameState(level);
+    expect(undo(start)).toBe(start);
+  });
+
+  it('takes back a whole slide and lets redo replay it', () => {
+    const start = createGameState(level, MoveMetric.SLIDE);
+    const slide = [{ blockId: 'p4', direction: LEFT }, { blockId: 'p4', direction: LEFT }];
+    const back = undoSlide(applySlide(start, slide)!);
+    expect(back.blocks).toEqual(start.blocks);
+    expect(back.moves).toBe(0);
+    expect(redoMoves(back.tree)).toEqual(slide);
+  });
+});
+
+describe('countMoves', () => {
+  const history = [
+    { blockId: 'p3', direction: RIGHT },
+    { blockId: 'p3', direction: RIGHT },
+    { blockId: 'p1', direction: DOWN },
+    { blockId: 'p3', direction: UP },
+  ];
+
+  it('counts every shift under STEP', () => {
+    expect(countMoves(history, MoveMetric.STEP)).toBe(4);
+  });
+
+  it('folds consecutive shifts of one block under SLIDE', () => {
+    expect(countMoves(history, MoveMetric.SLIDE)).toBe(3);
+    expect(countMoves([], MoveMetric.SLIDE)).toBe(0);
+  });
+});
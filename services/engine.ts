@@ -0,0 +1,337 @@
+import { Block, Direction, GameState, LevelDefinition, Move, MoveMetric } from '../types';
+import { advance, createHistoryTree, pathTo, retreat, selectNode } from './historyTree';
+
+// Headless rules engine. Everything here is pure: functions take a state and
+// return a new one, never touching React, audio or the DOM. The board, the
+// solver and any tooling should go through these so the rules live in one place.
+
+export const DIRECTIONS: Direction[] = [Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT];
+
+export const DIRECTION_DELTAS: Record<Direction, { dx: number; dy: number }> = {
+  [Direction.UP]: { dx: 0, dy: -1 },
+  [Direction.DOWN]: { dx: 0, dy: 1 },
+  [Direction.LEFT]: { dx: -1, dy: 0 },
+  [Direction.RIGHT]: { dx: 1, dy: 0 },
+};
+
+export const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
+  [Direction.UP]: Direction.DOWN,
+  [Direction.DOWN]: Direction.UP,
+  [Direction.LEFT]: Direction.RIGHT,
+  [Direction.RIGHT]: Direction.LEFT,
+};
+
+export const createGameState = (level: LevelDefinition, metric = MoveMetric.STEP): GameState => ({
+  level,
+  blocks: level.blocks,
+  selectedBlockId: null,
+  metric,
+  moves: 0,
+  isWon: isAtGoal(level, level.blocks),
+  history: [],
+  tree: createHistoryTree(),
+  hintsUsed: 0,
+  autoMoves: 0,
+});
+
+// Offsets of the filled cells relative to the block's top-left corner.
+// Cached per mask array: shifted copies of a block share the same mask.
+const offsetCache = new WeakMap<string[], { dx: number; dy: number }[]>();
+
+export const getCellOffsets = (block: Block): { dx: number; dy: number }[] => {
+  if (block.mask) {
+    const cached = offsetCache.get(block.mask);
+    if (cached) return cached;
+  }
+  const offsets: { dx: number; dy: number }[] = [];
+  for (let dy = 0; dy < block.height; dy++) {
+    for (let dx = 0; dx < block.width; dx++) {
+      if (isMaskCellFilled(block, dx, dy)) offsets.push({ dx, dy });
+    }
+  }
+  if (block.mask) offsetCache.set(block.mask, offsets);
+  return offsets;
+};
+
+export const isMaskCellFilled = (block: Block, dx: number, dy: number): boolean => {
+  if (dx < 0 || dy < 0 || dx >= block.width || dy >= block.height) return false;
+  return !block.mask || block.mask[dy]?.[dx] === '#';
+};
+
+// Absolute board cells covered by a block
+export const getBlockCells = (block: Block): { x: number; y: number }[] =>
+  getCellOffsets(block).map(({ dx, dy }) => ({ x: block.x + dx, y: block.y + dy }));
+
+// Set of "x,y" keys covered by every block except `excludeId`
+export const getOccupiedCells = (blocks: Block[], excludeId?: string): Set<string> => {
+  const occupied = new Set<string>();
+  blocks.forEach(b => {
+    if (b.id === excludeId) return;
+    for (const { x, y } of getBlockCells(b)) {
+      occupied.add(`${x},${y}`);
+    }
+  });
+  return occupied;
+};
+
+// Cell-level overlap test for `a` placed at (ax, ay) against `b`. Only needed
+// when the bounding boxes already overlap and at least one block has a mask.
+const masksOverlap = (a: Block, ax: number, ay: number, b: Block): boolean => {
+  for (const { dx, dy } of getCellOffsets(a)) {
+    if (isMaskCellFilled(b, ax + dx - b.x, ay + dy - b.y)) return true;
+  }
+  return false;
+};
+
+// Check if the block at `index` can shift one cell in `direction`
+export const canMove = (level: LevelDefinition, blocks: Block[], index: number, direction: Direction): boolean => {
+  const b = blocks[index];
+  if (!b) return false;
+  const { dx, dy } = DIRECTION_DELTAS[direction];
+  const nx = b.x + dx;
+  const ny = b.y + dy;
+
+  // 1. Boundary Check
+  if (nx < 0 || ny < 0 || nx + b.width > level.width || ny + b.height > level.height) {
+    return false;
+  }
+
+  // 2. Collision Check (AABB vs all other blocks, refined by masks)
+  for (let i = 0; i < blocks.length; i++) {
+    if (i === index) continue;
+    const other = blocks[i];
+    if (nx < other.x + other.width &&
+        nx + b.width > other.x &&
+        ny < other.y + other.height &&
+        ny + b.height > other.y) {
+      if (!b.mask && !other.mask) return false;
+      if (masksOverlap(b, nx, ny, other)) return false;
+    }
+  }
+
+  return true;
+};
+
+// Returns a new array with the block at `index` shifted. Does not validate.
+export const shiftBlock = (blocks: Block[], index: number, direction: Direction): Block[] => {
+  const { dx, dy } = DIRECTION_DELTAS[direction];
+  const next = [...blocks];
+  next[index] = { ...blocks[index], x: blocks[index].x + dx, y: blocks[index].y + dy };
+  return next;
+};
+
+// Every cell of the level's target block must sit inside its goal region
+export const isAtGoal = (level: LevelDefinition, blocks: Block[]): boolean => {
+  const t = blocks.find(b => b.id === level.targetId);
+  if (!t) return false;
+  const { goal } = level;
+  return getBlockCells(t).every(({ x, y }) =>
+    x >= goal.x && y >= goal.y && x < goal.x + goal.width && y < goal.y + goal.height);
+};
+
+export const isWon = (state: GameState): boolean => isAtGoal(state.level, state.blocks);
+
+// Whether `move` opens a new move in `metric` after `previous`. Under SLIDE,
+// consecutive shifts of the same block are one slide.
+const startsNewMove = (metric: MoveMetric, previous: Move | undefined, move: Move): boolean =>
+  metric === MoveMetric.STEP || !previous || previous.blockId !== move.blockId;
+
+// Number of moves a history of unit shifts amounts to in `metric`
+export const countMoves = (history: Move[], metric: MoveMetric): number =>
+  history.reduce((n, move, i) => n + (startsNewMove(metric, history[i - 1], move) ? 1 : 0), 0);
+
+// Same game counted in another metric
+export const withMetric = (state: GameState, metric: MoveMetric): GameState =>
+  ({ ...state, metric, moves: countMoves(state.history, metric) });
+
+// Apply a single move. Returns null if the move is illegal (unknown block,
+// out of bounds or blocked) or the game is already won. A `chained` move
+// belongs to the same slide as the previous one; see applySlide.
+export const applyMove = (state: GameState, move: Move, chained = false): GameState | null => {
+  if (state.isWon) return null;
+  const index = state.blocks.findIndex(b => b.id === move.blockId);
+  if (index === -1 || !canMove(state.level, state.blocks, index, move.direction)) return null;
+
+  const blocks = shiftBlock(state.blocks, index, move.direction);
+  return {
+    ...state,
+    blocks,
+    selectedBlockId: move.blockId,
+    moves: state.moves + (startsNewMove(state.metric, state.history[state.history.length - 1], move) ? 1 : 0),
+    isWon: isAtGoal(state.level, blocks),
+    history: [...state.history, move],
+    tree: advance(state.tree, move, chained),
+  };
+};
+
+// Apply several shifts of one gesture as a single history entry: undoSlide
+// and redo take them back and forth together. All or nothing; null if any
+// shift is illegal.
+export const applySlide = (state: GameState, moves: Move[]): GameState | null => {
+  let next = state;
+  for (let i = 0; i < moves.length; i++) {
+    const applied = applyMove(next, moves[i], i > 0);
+    if (!applied) return null;
+    next = applied;
+  }
+  return moves.length ? next : null;
+};
+
+// Play `moves` from the start of `level`. Stops at the first illegal move and
+// reports its index in `failedAt` (-1 when every move applied).
+export const replayMoves = (
+  level: LevelDefinition,
+  moves: Move[],
+  metric = MoveMetric.STEP
+): { game: GameState; failedAt: number } => {
+  let game = createGameState(level, metric);
+  for (let i = 0; i < moves.length; i++) {
+    const next = applyMove(game, moves[i]);
+    if (!next) return { game, failedAt: i };
+    game = next;
+  }
+  return { game, failedAt: -1 };
+};
+
+// The board before and after each of `moves`: frames[0] is the starting
+// layout, frames[i] the one after move i. Ends early at an illegal move.
+export const replayFrames = (level: LevelDefinition, moves: Move[]): Block[][] => {
+  const frames = [level.blocks];
+  let game = createGameState(level);
+  for (const move of moves) {
+    const next = applyMove(game, move);
+    if (!next) break;
+    frames.push(next.blocks);
+    game = next;
+  }
+  return frames;
+};
+
+export const legalMoves = (state: GameState): Move[] => {
+  if (state.isWon) return [];
+  const result: Move[] = [];
+  state.blocks.forEach((b, i) => {
+    for (const direction of DIRECTIONS) {
+      if (canMove(state.level, state.blocks, i, direction)) {
+        result.push({ blockId: b.id, direction });
+      }
+    }
+  });
+  return result;
+};
+
+// Reverts the last move in history. A legal move is always reversible, so the
+// inverse shift needs no validation.
+export const undo = (state: GameState): GameState => {
+  if (state.history.length === 0) return state;
+  const last = state.history[state.history.length - 1];
+  const index = state.blocks.findIndex(b => b.id === last.blockId);
+  if (index === -1) return state;
+
+  const blocks = shiftBlock(state.blocks, index, OPPOSITE_DIRECTION[last.direction]);
+  const previous = state.history[state.history.length - 2];
+  return {
+    ...state,
+    blocks,
+    moves: Math.max(0, state.moves - (startsNewMove(state.metric, previous, last) ? 1 : 0)),
+    isWon: isAtGoal(state.level, blocks),
+    history: state.history.slice(0, -1),
+    tree: retreat(state.tree),
+  };
+};
+
+// Reverts the last slide: the last move and every move chained before it
+export const undoSlide = (state: GameState): GameState => {
+  let next = state;
+  while (next.history.length) {
+    const { chained } = next.tree.nodes[next.tree.current];
+    next = undo(next);
+    if (!chained) break;
+  }
+  return next;
+};
+
+// A position a block can slide to and the shortest route there
+export interface SlideTarget {
+  x: number;
+  y: number;
+  path: Direction[];
+}
+
+// Where a block can get to by sliding on its own, with the other blocks held
+// still: every position reachable in unit shifts, turns included. The block's
+// current position comes first with an empty path. Routes never run through a
+// win, since the game ends there.
+export const slideTargets = (level: LevelDefinition, blocks: Block[], index: number): SlideTarget[] => {
+  const start = blocks[index];
+  if (!start) return [];
+  const targets: SlideTarget[] = [{ x: start.x, y: start.y, path: [] }];
+  const seen = new Set([`${start.x},${start.y}`]);
+  // Breadth-first, so the first path found to a position is a shortest one
+  for (let head = 0; head < targets.length; head++) {
+    const { x, y, path } = targets[head];
+    const placed = [...blocks];
+    placed[index] = { ...start, x, y };
+    if (head > 0 && isAtGoal(level, placed)) continue;
+    for (const direction of DIRECTIONS) {
+      if (!canMove(level, placed, index, direction)) continue;
+      const { dx, dy } = DIRECTION_DELTAS[direction];
+      const key = `${x + dx},${y + dy}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      targets.push({ x: x + dx, y: y + dy, path: [...path, direction] });
+    }
+  }
+  return targets;
+};
+
+// The game at another node of its history tree. The board is rebuilt by
+// replaying the node's path; null if that path no longer replays.
+export const jumpTo = (state: GameState, node: number): GameState | null => {
+  const { game, failedAt } = replayMoves(state.level, pathTo(state.tree, node), state.metric);
+  if (failedAt !== -1) return null;
+  return {
+    ...game,
+    selectedBlockId: null,
+    tree: selectNode(state.tree, node),
+    hintsUsed: state.hintsUsed,
+    autoMoves: state.autoMoves,
+  };
+};
+
+// Structural checks for a level: target present, every block on the board,
+// no two blocks sharing a cell and a goal region that fits. Returns readable
+// messages, empty when the level is playable.
+export const validateLevel = (level: LevelDefinition, blocks: Block[] = level.blocks): string[] => {
+  const errors: string[] = [];
+  const owner = new Map<string, string>();
+  const name = (b: Block) => `${b.label || b.type} (${b.id})`;
+
+  if (!blocks.some(b => b.id === level.targetId)) {
+    errors.push('There is no target block: the level needs a piece that escapes.');
+  }
+
+  blocks.forEach(b => {
+    if (b.x < 0 || b.y < 0 || b.x + b.width > level.width || b.y + b.height > level.height) {
+      errors.push(`${name(b)} at ${b.x},${b.y} is outside the ${level.width}x${level.height} board.`);
+      return;
+    }
+    for (const { x, y } of getBlockCells(b)) {
+      const key = `${x},${y}`;
+      const other = owner.get(key);
+      if (other) {
+        errors.push(`${name(b)} overlaps ${other} at ${key}.`);
+        return;
+      }
+      owner.set(key, name(b));
+    }
+  });
+
+  const { goal } = level;
+  if (goal.x < 0 || goal.y < 0 || goal.width < 1 || goal.height < 1 ||
+      goal.x + goal.width > level.width || goal.y + goal.height > level.height) {
+    errors.push(`Goal region ${goal.x},${goal.y} ${goal.width}x${goal.height} does not fit on the board.`);
+  }
+
+  return errors;
+};
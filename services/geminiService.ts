@@ -1,8 +1,15 @@
 import { GoogleGenAI } from "@google/genai";
-import { Block, BlockType } from "../types";
-import { GRID_WIDTH, GRID_HEIGHT } from "../constants";
+import { Block, BlockType, Direction, LevelDefinition } from "../types";
+import { getBlockCells } from "./engine";
 
-export const getPuzzleHint = async (blocks: Block[]): Promise<string> => {
+const EXIT_SIDE_TEXT: Record<Direction, string> = {
+  [Direction.UP]: 'top',
+  [Direction.DOWN]: 'bottom',
+  [Direction.LEFT]: 'left',
+  [Direction.RIGHT]: 'right',
+};
+
+export const getPuzzleHint = async (level: LevelDefinition, blocks: Block[]): Promise<string> => {
   try {
     const apiKey = process.env.API_KEY;
     if (!apiKey) {
@@ -12,7 +19,7 @@ export const getPuzzleHint = async (blocks: Block[]): Promise<string> => {
     const ai = new GoogleGenAI({ apiKey });
     
     // Create a visual representation of the board for the LLM
-    const grid: string[][] = Array(GRID_HEIGHT).fill(null).map(() => Array(GRID_WIDTH).fill('.'));
+    const grid: string[][] = Array(level.height).fill(null).map(() => Array(level.width).fill('.'));
     
     blocks.forEach(b => {
       let char = '?';
@@ -20,22 +27,25 @@ export const getPuzzleHint = async (blocks: Block[]): Promise<string> => {
       else if (b.type === BlockType.VERTICAL) char = 'V';
       else if (b.type === BlockType.HORIZONTAL) char = 'H';
       else if (b.type === BlockType.PAWN) char = 'P';
+      else if (b.type === BlockType.SHAPE) char = 'S';
       
-      for (let dy = 0; dy < b.height; dy++) {
-        for (let dx = 0; dx < b.width; dx++) {
-          if (b.y + dy < GRID_HEIGHT && b.x + dx < GRID_WIDTH) {
-             grid[b.y + dy][b.x + dx] = char;
-          }
+      for (const { x, y } of getBlockCells(b)) {
+        if (y < level.height && x < level.width) {
+           grid[y][x] = char;
         }
       }
     });
 
     const boardString = grid.map(row => row.join(' ')).join('\n');
+    const target = blocks.find(b => b.id === level.targetId);
+    const targetText = target?.type === BlockType.KING ? "the King 'K'" : `the ${target?.label || 'target'} piece`;
+    const exitText = `${EXIT_SIDE_TEXT[level.exit.side]} edge (starting at cell ${level.exit.offset}, ${level.exit.length} cells wide)`;
 
     const prompt = `
 You are an expert puzzle solver for the game Klotski (Huarong Dao).
-The goal is to move the King 'K' (2x2 block) to the bottom center exit.
-Current Board State (K=King, V=Vertical Block, H=Horizontal Block, P=Pawn, .=Empty):
+The board is ${level.width} columns by ${level.height} rows.
+The goal is to move ${targetText} (${target?.width}x${target?.height} block) out through the exit on the ${exitText}.
+Current Board State (K=King, V=Vertical Block, H=Horizontal Block, P=Pawn, S=Irregular Shaped Block, .=Empty):
 
 ${boardString}
 
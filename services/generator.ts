@@ -0,0 +1,141 @@
+import { Block, LevelDefinition, MoveMetric } from '../types';
+import { getBlockCells, isAtGoal } from './engine';
+import { exploreStateGraph, positionAt } from './analysis';
+
+// Random solvable layouts for a board and piece set. Each attempt scatters the
+// pieces at random, explores the whole state graph around that placement and
+// then starts the puzzle from a position whose distance to the nearest win
+// falls in the requested range. Picking from the graph rather than keeping the
+// raw placement is what makes long puzzles show up in reasonable time.
+
+export interface GeneratorOptions {
+  minMoves: number;
+  maxMoves: number;
+  metric?: MoveMetric;
+  seed?: number; // Same seed and template give the same puzzle
+  timeLimitMs?: number;
+  // Stop after this many layouts. With a time limit that cannot run out, the
+  // result then depends only on seed and template, not on machine speed.
+  maxAttempts?: number;
+  onProgress?: (progress: GeneratorProgress) => void;
+}
+
+export interface GeneratorProgress {
+  attempts: number;
+  closest: number | null; // Best optimal length seen so far
+}
+
+export interface GeneratedPuzzle {
+  level: LevelDefinition;
+  optimalLength: number;
+  reachableStates: number;
+  branching: number; // Average distinct moves per unsolved position
+  inRange: boolean; // False when time ran out and this is only the closest find
+  attempts: number;
+}
+
+const DEFAULT_TIME_LIMIT = 20000;
+
+// Small seedable PRNG (mulberry32); Math.random cannot be replayed
+export const createRandom = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Scatter the template's pieces over the board, largest first so they still
+// fit. Returns null when a piece finds no room.
+const randomPlacement = (level: LevelDefinition, random: () => number): Block[] | null => {
+  const occupied = new Set<string>();
+  const order = [...level.blocks].sort((a, b) => getBlockCells(b).length - getBlockCells(a).length);
+  const placed = new Map<string, Block>();
+
+  for (const block of order) {
+    const spots: Block[] = [];
+    for (let y = 0; y + block.height <= level.height; y++) {
+      for (let x = 0; x + block.width <= level.width; x++) {
+        const candidate = { ...block, x, y };
+        if (getBlockCells(candidate).every(c => !occupied.has(`${c.x},${c.y}`))) spots.push(candidate);
+      }
+    }
+    if (spots.length === 0) return null;
+    const spot = spots[Math.floor(random() * spots.length)];
+    getBlockCells(spot).forEach(c => occupied.add(`${c.x},${c.y}`));
+    placed.set(block.id, spot);
+  }
+  // Keep the template's block order so ids and indices line up with it
+  return level.blocks.map(b => placed.get(b.id)!);
+};
+
+// How far `length` is from the requested range, 0 inside it
+const rangeDistance = (length: number, min: number, max: number) =>
+  length < min ? min - length : length > max ? length - max : 0;
+
+export const generateLevel = (template: LevelDefinition, options: GeneratorOptions): GeneratedPuzzle | null => {
+  const {
+    minMoves,
+    maxMoves,
+    metric = MoveMetric.STEP,
+    seed = Date.now(),
+    timeLimitMs = DEFAULT_TIME_LIMIT,
+    maxAttempts = Infinity,
+    onProgress,
+  } = options;
+  const random = createRandom(seed);
+  const deadline = Date.now() + timeLimitMs;
+
+  let best: Omit<GeneratedPuzzle, 'level' | 'attempts'> & { blocks: Block[] } | null = null;
+  let attempts = 0;
+
+  while (Date.now() < deadline && attempts < maxAttempts) {
+    attempts++;
+    const blocks = randomPlacement(template, random);
+    if (!blocks || isAtGoal(template, blocks)) continue;
+
+    const { result, winning, toGoal, degree } = exploreStateGraph(template, blocks, metric);
+    let unsolved = 0;
+    let totalDegree = 0;
+    const candidates: number[] = [];
+    let closest = -1;
+    for (let s = 0; s < result.stateCount; s++) {
+      if (winning[s] || toGoal[s] === -1) continue;
+      unsolved++;
+      totalDegree += degree[s];
+      if (toGoal[s] >= minMoves && toGoal[s] <= maxMoves) candidates.push(s);
+      else if (closest === -1 ||
+        rangeDistance(toGoal[s], minMoves, maxMoves) < rangeDistance(toGoal[closest], minMoves, maxMoves)) closest = s;
+    }
+
+    const pick = candidates.length ? candidates[Math.floor(random() * candidates.length)] : closest;
+    if (pick !== -1 && (!best ||
+      rangeDistance(toGoal[pick], minMoves, maxMoves) < rangeDistance(best.optimalLength, minMoves, maxMoves))) {
+      best = {
+        blocks: positionAt(blocks, result, pick),
+        optimalLength: toGoal[pick],
+        reachableStates: result.stateCount,
+        branching: unsolved ? totalDegree / unsolved : 0,
+        inRange: candidates.length > 0,
+      };
+    }
+    onProgress?.({ attempts, closest: best?.optimalLength ?? null });
+    if (best?.inRange) break;
+  }
+
+  if (!best) return null;
+  const { blocks, ...stats } = best;
+  return {
+    ...stats,
+    level: {
+      ...template,
+      id: `generated-${seed}`,
+      name: `Generated #${seed.toString(36).slice(-5).toUpperCase()}`,
+      blocks,
+    },
+    attempts,
+  };
+};
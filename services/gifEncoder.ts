@@ -0,0 +1,185 @@
+// Minimal animated GIF89a encoder for palette-indexed frames. Pure byte
+// pushing with no canvas or DOM, so the same frames always encode to the same
+// bytes, in the browser or in Node.
+//
+// Each frame after the first is stored as the bounding box of the pixels that
+// changed since the previous one, drawn over it ("do not dispose").
+
+export interface IndexedFrame {
+  width: number;
+  height: number;
+  pixels: Uint8Array; // Palette indices, row by row
+}
+
+// Palette entries as 0xRRGGBB, at most 256
+export type Palette = number[];
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  // Data sub-blocks: runs of up to 255 bytes, each prefixed by its length
+  subBlocks(data: Uint8Array) {
+    for (let i = 0; i < data.length; i += 255) {
+      const chunk = data.subarray(i, i + 255);
+      this.byte(chunk.length);
+      for (const b of chunk) this.byte(b);
+    }
+    this.byte(0);
+  }
+
+  toBytes() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+// Variable-length-code LZW as GIF wants it: codes grow from minCodeSize + 1
+// bits up to 12, after which the table is cleared and starts over
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) out.push(buffer & 0xff);
+  return Uint8Array.from(out);
+};
+
+// Smallest box holding every pixel that differs between two frames; null if none
+const changedBox = (previous: IndexedFrame, frame: IndexedFrame) => {
+  const { width, height } = frame;
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (previous.pixels[i] === frame.pixels[i]) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  return right === -1 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+const crop = (frame: IndexedFrame, box: { left: number; top: number; width: number; height: number }) => {
+  const pixels = new Uint8Array(box.width * box.height);
+  for (let y = 0; y < box.height; y++) {
+    const start = (box.top + y) * frame.width + box.left;
+    pixels.set(frame.pixels.subarray(start, start + box.width), y * box.width);
+  }
+  return pixels;
+};
+
+// `delays` are in milliseconds, one per frame; GIF stores hundredths, so they
+// are rounded to 10 ms. A frame identical to the one before it only extends
+// that frame's delay. The animation loops forever.
+export const encodeGif = (frames: IndexedFrame[], delays: number[], palette: Palette): Uint8Array => {
+  if (frames.length === 0) throw new Error('A GIF needs at least one frame.');
+  if (palette.length > 256) throw new Error('A GIF palette holds at most 256 colors.');
+  const { width, height } = frames[0];
+
+  // Color table sizes are powers of two from 2 to 256
+  let tableBits = 1;
+  while (1 << tableBits < palette.length) tableBits++;
+  const minCodeSize = Math.max(2, tableBits);
+
+  // Merge runs of identical frames before writing anything
+  const entries: { frame: IndexedFrame; box: ReturnType<typeof changedBox>; delay: number }[] = [];
+  frames.forEach((frame, i) => {
+    if (frame.width !== width || frame.height !== height) throw new Error('All GIF frames must be the same size.');
+    const box = i === 0 ? { left: 0, top: 0, width, height } : changedBox(frames[i - 1], frame);
+    if (!box) entries[entries.length - 1].delay += delays[i];
+    else entries.push({ frame, box, delay: delays[i] });
+  });
+
+  const w = new ByteWriter();
+  w.string('GIF89a');
+  w.word(width);
+  w.word(height);
+  w.byte(0x80 | 0x70 | (tableBits - 1)); // Global color table, 8-bit color resolution
+  w.byte(0); // Background color index
+  w.byte(0); // Square pixels
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const color = palette[i] ?? 0;
+    w.byte(color >> 16);
+    w.byte(color >> 8);
+    w.byte(color);
+  }
+
+  // NETSCAPE2.0 application extension: loop forever
+  w.byte(0x21); w.byte(0xff); w.byte(11);
+  w.string('NETSCAPE2.0');
+  w.byte(3); w.byte(1); w.word(0); w.byte(0);
+
+  for (const { frame, box, delay } of entries) {
+    // Graphic control extension: no transparency, leave the frame in place
+    w.byte(0x21); w.byte(0xf9); w.byte(4);
+    w.byte(1 << 2);
+    w.word(Math.round(delay / 10));
+    w.byte(0);
+    w.byte(0);
+
+    w.byte(0x2c);
+    w.word(box!.left);
+    w.word(box!.top);
+    w.word(box!.width);
+    w.word(box!.height);
+    w.byte(0); // No local color table, not interlaced
+    w.byte(minCodeSize);
+    w.subBlocks(lzwEncode(crop(frame, box!), minCodeSize));
+  }
+
+  w.byte(0x3b);
+  return w.toBytes();
+};
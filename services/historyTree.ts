@@ -0,0 +1,124 @@
+import { HistoryTree, Move } from '../types';
+
+// Every line of play in a game, as a tree of moves. The root is the starting
+// position; each node is the position after its `move`. Undoing walks to the
+// parent and keeps the node, so a different move afterwards opens a branch
+// instead of discarding the old line. Positions are never stored: a node's
+// board is rebuilt by replaying the moves on its path.
+
+export const ROOT_NODE = 0;
+
+const sameMove = (a: Move | null, b: Move) => !!a && a.blockId === b.blockId && a.direction === b.direction;
+
+export const createHistoryTree = (): HistoryTree => ({
+  nodes: [{ move: null, parent: -1, children: [], redoChild: -1 }],
+  current: ROOT_NODE,
+});
+
+// Tree after playing `move` from the current node. Replaying a move that
+// already has a node follows it rather than duplicating the branch; `chained`
+// marks the move as part of the same slide as the one before it.
+export const advance = (tree: HistoryTree, move: Move, chained = false): HistoryTree => {
+  const { nodes, current } = tree;
+  const existing = nodes[current].children.find(c => sameMove(nodes[c].move, move));
+  const child = existing ?? nodes.length;
+  const next = existing === undefined
+    ? [...nodes, { move, parent: current, children: [], redoChild: -1, chained }]
+    : [...nodes];
+  if (existing !== undefined) next[existing] = { ...nodes[existing], chained };
+  next[current] = {
+    ...nodes[current],
+    children: existing === undefined ? [...nodes[current].children, child] : nodes[current].children,
+    redoChild: child,
+  };
+  return { nodes: next, current: child };
+};
+
+// Tree one step back towards the root; the node left stays as the redo target
+export const retreat = (tree: HistoryTree): HistoryTree => {
+  const { nodes, current } = tree;
+  if (nodes[current].parent === -1) return tree;
+  const parent = nodes[current].parent;
+  const next = [...nodes];
+  next[parent] = { ...nodes[parent], redoChild: current };
+  return { nodes: next, current: parent };
+};
+
+// Moves redo plays: the next move along the redo line and any chained to it
+export const redoMoves = (tree: HistoryTree): Move[] => {
+  const moves: Move[] = [];
+  for (let child = tree.nodes[tree.current].redoChild;
+    child !== -1 && (moves.length === 0 || tree.nodes[child].chained);
+    child = tree.nodes[child].redoChild) {
+    moves.push(tree.nodes[child].move!);
+  }
+  return moves;
+};
+
+// Moves from the root to `node`
+export const pathTo = (tree: HistoryTree, node: number): Move[] => {
+  const moves: Move[] = [];
+  for (let n = node; tree.nodes[n].parent !== -1; n = tree.nodes[n].parent) moves.push(tree.nodes[n].move!);
+  return moves.reverse();
+};
+
+// Tree with `node` current and redo pointing along the path to it from above
+export const selectNode = (tree: HistoryTree, node: number): HistoryTree => {
+  const nodes = [...tree.nodes];
+  for (let n = node; nodes[n].parent !== -1; n = nodes[n].parent) {
+    const parent = nodes[n].parent;
+    nodes[parent] = { ...nodes[parent], redoChild: n };
+  }
+  return { nodes, current: node };
+};
+
+// Structural check for trees from outside (saves): nodes only ever point back
+// at earlier nodes, so a tree that passes cannot send a walk round in circles
+export const isValidTree = (tree: HistoryTree): boolean => {
+  const { nodes, current } = tree;
+  if (!Array.isArray(nodes) || nodes.length === 0 || nodes[0].parent !== -1) return false;
+  if (!Number.isInteger(current) || current < 0 || current >= nodes.length) return false;
+  return nodes.every((n, i) => i === 0 || (Number.isInteger(n.parent) && n.parent >= 0 && n.parent < i && !!n.move));
+};
+
+export interface TimelineNode {
+  node: number;
+  depth: number; // Moves from the start: the column
+  lane: number; // Row; a branch gets the first row free from its fork onwards
+}
+
+// Places every node for drawing the tree as a left-to-right timeline. Each
+// first child continues its parent's lane; later children open new lanes
+// below, packed so branches that do not overlap in depth can share one.
+export const layoutTree = (tree: HistoryTree): TimelineNode[] => {
+  const { nodes } = tree;
+  const result: TimelineNode[] = [];
+  const laneEnds: number[] = []; // Deepest column used so far in each lane
+
+  const place = (node: number, depth: number, lane: number) => {
+    result.push({ node, depth, lane });
+    laneEnds[lane] = Math.max(laneEnds[lane] ?? -1, depth);
+  };
+  const freeLane = (from: number, depth: number) => {
+    let lane = from;
+    while ((laneEnds[lane] ?? -1) >= depth) lane++;
+    return lane;
+  };
+
+  // Iterative depth-first walk; long games make for deep trees. A later
+  // sibling's lane is picked when it comes off the stack, after everything
+  // before it has claimed its space.
+  const stack: { node: number; depth: number; lane: number | null; parentLane: number }[] =
+    [{ node: ROOT_NODE, depth: 0, lane: 0, parentLane: 0 }];
+  while (stack.length) {
+    const { node, depth, lane: fixedLane, parentLane } = stack.pop()!;
+    const lane = fixedLane ?? freeLane(parentLane + 1, depth);
+    place(node, depth, lane);
+    const children = nodes[node].children;
+    for (let i = children.length - 1; i >= 1; i--) {
+      stack.push({ node: children[i], depth: depth + 1, lane: null, parentLane: lane });
+    }
+    if (children.length) stack.push({ node: children[0], depth: depth + 1, lane, parentLane: lane });
+  }
+  return result;
+};
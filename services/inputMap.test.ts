@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_BINDINGS,
+  GamepadReader,
+  InputAction,
+  actionForKey,
+  bindKey,
+  createKeyHandler,
+  keyCombo,
+  parseBindings,
+  unbindKey,
+} from './inputMap';
+
+type KeyInit = { key: string; ctrlKey?: boolean; metaKey?: boolean; altKey?: boolean; shiftKey?: boolean };
+
+// A keydown Event carrying KeyboardEvent's fields; Node has Event but not KeyboardEvent
+const keydown = ({ ctrlKey = false, metaKey = false, altKey = false, shiftKey = false, key }: KeyInit) =>
+  Object.assign(new Event('keydown', { cancelable: true }), { key, ctrlKey, metaKey, altKey, shiftKey }) as KeyboardEvent;
+
+// Dispatches `init` at a target listening through createKeyHandler
+const press = (init: KeyInit, bindings = DEFAULT_BINDINGS) => {
+  const onAction = vi.fn();
+  const target = new EventTarget();
+  target.addEventListener('keydown', createKeyHandler(() => bindings, onAction) as EventListener);
+  const event = keydown(init);
+  target.dispatchEvent(event);
+  return { actions: onAction.mock.calls.map(([action]) => action), prevented: event.defaultPrevented };
+};
+
+describe('keyCombo', () => {
+  it('writes modifiers in a fixed order and upper-cases letters', () => {
+    expect(keyCombo({ key: 'z', ctrlKey: true, shiftKey: true, altKey: false, metaKey: false })).toBe('Ctrl+Shift+Z');
+    expect(keyCombo({ key: ' ', ctrlKey: false, shiftKey: false, altKey: true, metaKey: false })).toBe('Alt+Space');
+    expect(keyCombo({ key: 'y', ctrlKey: false, shiftKey: false, altKey: false, metaKey: true })).toBe('Ctrl+Y');
+  });
+
+  it('ignores a bare modifier', () => {
+    expect(keyCombo({ key: 'Shift', ctrlKey: false, shiftKey: true, altKey: false, metaKey: false })).toBeNull();
+  });
+});
+
+describe('createKeyHandler', () => {
+  it('dispatches bound keys and prevents their default', () => {
+    expect(press({ key: 'ArrowUp' })).toEqual({ actions: [InputAction.MOVE_UP], prevented: true });
+    expect(press({ key: 'z', ctrlKey: true })).toEqual({ actions: [InputAction.UNDO], prevented: true });
+    expect(press({ key: 'Z', ctrlKey: true, shiftKey: true })).toEqual({ actions: [InputAction.REDO], prevented: true });
+  });
+
+  it('leaves unbound keys alone', () => {
+    expect(press({ key: 'q' })).toEqual({ actions: [], prevented: false });
+    expect(press({ key: 'z' })).toEqual({ actions: [], prevented: false });
+  });
+
+  it('follows rebinding', () => {
+    const bindings = bindKey(DEFAULT_BINDINGS, InputAction.HINT, 'Ctrl+Z');
+    expect(press({ key: 'z', ctrlKey: true }, bindings).actions).toEqual([InputAction.HINT]);
+    expect(press({ key: 'h' }, unbindKey(bindings, InputAction.HINT, 'H')).actions).toEqual([]);
+  });
+
+  it('never takes keys typed into form fields', () => {
+    const onAction = vi.fn();
+    const event = { ...keydown({ key: 'r' }), target: { closest: () => ({}) }, preventDefault: vi.fn() };
+    createKeyHandler(() => DEFAULT_BINDINGS, onAction)(event as unknown as KeyboardEvent);
+    expect(onAction).not.toHaveBeenCalled();
+    expect(event.preventDefault).not.toHaveBeenCalled();
+  });
+});
+
+describe('bindings', () => {
+  it('moves a key off the action that had it', () => {
+    const bindings = bindKey(DEFAULT_BINDINGS, InputAction.RESET, 'H');
+    expect(bindings[InputAction.RESET]).toEqual(['R', 'H']);
+    expect(bindings[InputAction.HINT]).toEqual([]);
+    expect(actionForKey(bindings, keydown({ key: 'h' }))).toBe(InputAction.RESET);
+  });
+
+  it('falls back to defaults for anything malformed in a save', () => {
+    expect(parseBindings(null)).toEqual(DEFAULT_BINDINGS);
+    const parsed = parseBindings({ [InputAction.UNDO]: ['Backspace'], [InputAction.REDO]: 'Ctrl+Y', bogus: ['X'] });
+    expect(parsed[InputAction.UNDO]).toEqual(['Backspace']);
+    expect(parsed[InputAction.REDO]).toEqual(DEFAULT_BINDINGS[InputAction.REDO]);
+    expect(parsed).not.toHaveProperty('bogus');
+  });
+});
+
+describe('GamepadReader', () => {
+  const pad = (pressed: number[], axes = [0, 0]) => ({
+    index: 0,
+    axes,
+    buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i) }) as GamepadButton),
+  });
+
+  it('fires once per button press', () => {
+    const onAction = vi.fn();
+    const reader = new GamepadReader(onAction);
+    reader.poll([pad([1])]);
+    reader.poll([pad([1])]);
+    reader.poll([pad([])]);
+    reader.poll([pad([1, 12])]);
+    expect(onAction.mock.calls.map(([a]) => a)).toEqual([InputAction.UNDO, InputAction.UNDO, InputAction.MOVE_UP]);
+  });
+
+  it('fires the stick direction once until it comes back', () => {
+    const onAction = vi.fn();
+    const reader = new GamepadReader(onAction);
+    reader.poll([pad([], [0.9, 0])]);
+    reader.poll([pad([], [0.5, 0])]);
+    reader.poll([pad([], [0.9, 0])]);
+    reader.poll([pad([], [0, 0])]);
+    reader.poll([pad([], [0, -0.8])]);
+    expect(onAction.mock.calls.map(([a]) => a)).toEqual([InputAction.MOVE_RIGHT, InputAction.MOVE_UP]);
+  });
+});
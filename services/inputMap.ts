@@ -0,0 +1,202 @@
+import { Direction } from '../types';
+
+// One place that turns keys and gamepad buttons into game actions. Keyboard
+// bindings are player-editable and saved with the settings; the gamepad uses
+// the browser's standard mapping (Xbox-style layout) and is fixed.
+//
+// Nothing here reads the DOM beyond the event or gamepad it is handed, so a
+// binding can be checked by dispatching a synthetic KeyboardEvent at a handler
+// from createKeyHandler, or by feeding GamepadReader.poll a made-up pad.
+
+export enum InputAction {
+  MOVE_UP = 'MOVE_UP',
+  MOVE_DOWN = 'MOVE_DOWN',
+  MOVE_LEFT = 'MOVE_LEFT',
+  MOVE_RIGHT = 'MOVE_RIGHT',
+  SELECT_NEXT = 'SELECT_NEXT',
+  SELECT_PREVIOUS = 'SELECT_PREVIOUS',
+  UNDO = 'UNDO',
+  REDO = 'REDO',
+  HINT = 'HINT',
+  RESET = 'RESET',
+}
+
+// Key combos per action, written like "Ctrl+Shift+Z": modifiers in the order
+// Ctrl, Alt, Shift, then the key as KeyboardEvent.key reports it (single
+// letters upper-cased). Cmd on a Mac counts as Ctrl.
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  [InputAction.MOVE_UP]: ['ArrowUp', 'W'],
+  [InputAction.MOVE_DOWN]: ['ArrowDown', 'S'],
+  [InputAction.MOVE_LEFT]: ['ArrowLeft', 'A'],
+  [InputAction.MOVE_RIGHT]: ['ArrowRight', 'D'],
+  [InputAction.SELECT_NEXT]: ['N'],
+  [InputAction.SELECT_PREVIOUS]: ['P'],
+  [InputAction.UNDO]: ['Ctrl+Z', 'U'],
+  [InputAction.REDO]: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+  [InputAction.HINT]: ['H'],
+  [InputAction.RESET]: ['R'],
+};
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  [InputAction.MOVE_UP]: 'Move up',
+  [InputAction.MOVE_DOWN]: 'Move down',
+  [InputAction.MOVE_LEFT]: 'Move left',
+  [InputAction.MOVE_RIGHT]: 'Move right',
+  [InputAction.SELECT_NEXT]: 'Select next block',
+  [InputAction.SELECT_PREVIOUS]: 'Select previous block',
+  [InputAction.UNDO]: 'Undo',
+  [InputAction.REDO]: 'Redo',
+  [InputAction.HINT]: 'Hint',
+  [InputAction.RESET]: 'Reset',
+};
+
+export const MOVE_ACTIONS: Partial<Record<InputAction, Direction>> = {
+  [InputAction.MOVE_UP]: Direction.UP,
+  [InputAction.MOVE_DOWN]: Direction.DOWN,
+  [InputAction.MOVE_LEFT]: Direction.LEFT,
+  [InputAction.MOVE_RIGHT]: Direction.RIGHT,
+};
+
+// Keys that only ever modify another key and cannot be bound alone
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+type KeyLike = Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+// The combo an event stands for, or null for a bare modifier press
+export const keyCombo = (e: KeyLike): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  return [
+    (e.ctrlKey || e.metaKey) && 'Ctrl',
+    e.altKey && 'Alt',
+    e.shiftKey && 'Shift',
+    key,
+  ].filter(Boolean).join('+');
+};
+
+export const actionForKey = (bindings: KeyBindings, e: KeyLike): InputAction | null => {
+  const combo = keyCombo(e);
+  if (!combo) return null;
+  const action = (Object.keys(bindings) as InputAction[]).find(a => bindings[a].includes(combo));
+  return action ?? null;
+};
+
+// Bindings from a save, with defaults for anything missing or malformed
+export const parseBindings = (data: unknown): KeyBindings => {
+  const bindings = { ...DEFAULT_BINDINGS };
+  if (!data || typeof data !== 'object') return bindings;
+  for (const action of Object.values(InputAction)) {
+    const combos = (data as Record<string, unknown>)[action];
+    if (Array.isArray(combos) && combos.every(c => typeof c === 'string')) bindings[action] = combos;
+  }
+  return bindings;
+};
+
+// Bindings with `combo` added to `action`, taken away from any other action
+// that had it so one key never means two things
+export const bindKey = (bindings: KeyBindings, action: InputAction, combo: string): KeyBindings => {
+  const next = { ...bindings };
+  for (const a of Object.values(InputAction)) {
+    next[a] = a === action
+      ? (bindings[a].includes(combo) ? bindings[a] : [...bindings[a], combo])
+      : bindings[a].filter(c => c !== combo);
+  }
+  return next;
+};
+
+export const unbindKey = (bindings: KeyBindings, action: InputAction, combo: string): KeyBindings =>
+  ({ ...bindings, [action]: bindings[action].filter(c => c !== combo) });
+
+// Keydown listener that runs `onAction` for bound keys and leaves the rest
+// alone. Keys typed into form fields are never taken.
+export const createKeyHandler = (
+  getBindings: () => KeyBindings,
+  onAction: (action: InputAction) => void
+) => (e: KeyboardEvent) => {
+  const target = e.target as HTMLElement | null;
+  if (target?.closest?.('input, textarea, select, [contenteditable="true"]')) return;
+  const action = actionForKey(getBindings(), e);
+  if (!action) return;
+  e.preventDefault();
+  onAction(action);
+};
+
+// Standard-mapping button indices
+export const GAMEPAD_BUTTONS: Partial<Record<number, InputAction>> = {
+  12: InputAction.MOVE_UP, // D-pad
+  13: InputAction.MOVE_DOWN,
+  14: InputAction.MOVE_LEFT,
+  15: InputAction.MOVE_RIGHT,
+  5: InputAction.SELECT_NEXT, // Right bumper
+  4: InputAction.SELECT_PREVIOUS, // Left bumper
+  1: InputAction.UNDO, // B
+  2: InputAction.REDO, // X
+  3: InputAction.HINT, // Y
+  9: InputAction.RESET, // Start
+};
+
+// How far the left stick must lean to count as a direction, and how far back
+// it must come before the same direction fires again
+const STICK_PRESS = 0.6;
+const STICK_RELEASE = 0.3;
+
+type GamepadLike = Pick<Gamepad, 'index' | 'buttons' | 'axes'>;
+
+// Turns gamepad state into actions. Browsers only expose gamepads by polling,
+// so this samples every animation frame while running and fires an action
+// once per press: on the frame a button goes down or the stick crosses into a
+// direction.
+export class GamepadReader {
+  private pressed = new Map<number, Set<number>>(); // Buttons down per pad
+  private stick = new Map<number, InputAction | null>(); // Stick direction per pad
+  private frame: number | null = null;
+
+  constructor(private readonly onAction: (action: InputAction) => void) {}
+
+  start() {
+    if (this.frame !== null || typeof navigator === 'undefined' || !navigator.getGamepads) return;
+    const loop = () => {
+      this.poll(navigator.getGamepads());
+      this.frame = requestAnimationFrame(loop);
+    };
+    this.frame = requestAnimationFrame(loop);
+  }
+
+  stop() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.pressed.clear();
+    this.stick.clear();
+  }
+
+  // One sample of every connected pad
+  poll(pads: readonly (GamepadLike | null)[]) {
+    for (const pad of pads) {
+      if (!pad) continue;
+      const before = this.pressed.get(pad.index) ?? new Set<number>();
+      const now = new Set<number>();
+      pad.buttons.forEach((button, i) => {
+        if (!button.pressed) return;
+        now.add(i);
+        const action = GAMEPAD_BUTTONS[i];
+        if (action && !before.has(i)) this.onAction(action);
+      });
+      this.pressed.set(pad.index, now);
+
+      const [x = 0, y = 0] = pad.axes;
+      const previous = this.stick.get(pad.index) ?? null;
+      const lean = Math.max(Math.abs(x), Math.abs(y));
+      const direction = Math.abs(x) > Math.abs(y)
+        ? (x > 0 ? InputAction.MOVE_RIGHT : InputAction.MOVE_LEFT)
+        : (y > 0 ? InputAction.MOVE_DOWN : InputAction.MOVE_UP);
+      if (lean >= STICK_PRESS && direction !== previous) {
+        this.stick.set(pad.index, direction);
+        this.onAction(direction);
+      } else if (lean < STICK_RELEASE) {
+        this.stick.set(pad.index, null);
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase';
+import { GameState, LevelDefinition, MoveMetric } from '../types';
+import { encodeLayout, encodeMoves } from './shareLink';
+import { ScoreSubmission, verifySolution } from './verification';
+
+// Per-level leaderboards in Firestore:
+//
+//   leaderboards/{levelId with '/' as ':'}/entries/{uid}_{metric}
+//
+// One entry per player and metric holds their fewest moves and fastest time.
+// Only the submitScore Cloud Function writes entries, after replaying the
+// submitted moves (see functions/src/index.ts); clients just read them.
+
+export type LeaderboardSort = 'moves' | 'time';
+
+export interface LeaderboardEntry {
+  uid: string;
+  name: string;
+  moves: number;
+  timeMs: number;
+}
+
+const LEADERBOARD_SIZE = 10;
+
+const submitScoreFn = httpsCallable<ScoreSubmission, { moves: number; improved: boolean }>(functions, 'submitScore');
+
+// Submit a won game. Resolves to true when it beat the player's previous entry.
+export const submitScore = async (game: GameState, timeMs: number): Promise<boolean> => {
+  // Checked locally first so an engine bug shows up here rather than as a server rejection
+  const { error } = verifySolution(game.level, game.history, game.metric);
+  if (error) throw new Error(`Score rejected: ${error}`);
+
+  const { data } = await submitScoreFn({
+    levelId: game.level.id,
+    layout: encodeLayout(game.level),
+    metric: game.metric,
+    moves: encodeMoves(game.level, game.history),
+    timeMs,
+  });
+  return data.improved;
+};
+
+export const fetchLeaderboard = async (
+  level: LevelDefinition,
+  metric: MoveMetric,
+  sort: LeaderboardSort
+): Promise<LeaderboardEntry[]> => {
+  const snapshot = await getDocs(query(
+    collection(db, 'leaderboards', level.id.replace(/\//g, ':'), 'entries'),
+    where('metric', '==', metric),
+    orderBy(sort === 'moves' ? 'moves' : 'timeMs'),
+    limit(LEADERBOARD_SIZE)
+  ));
+  return snapshot.docs.map(d => {
+    const { uid, name, moves, timeMs } = d.data();
+    return { uid, name, moves, timeMs };
+  });
+};
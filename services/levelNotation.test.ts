@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Direction } from '../types';
+import classicPack from '../packs/classic.json';
+import { parseLevel, serializeLevel } from './levelNotation';
+
+const parse = (text: string) => {
+  const { level, errors } = parseLevel(text);
+  expect(errors).toEqual([]);
+  return level!;
+};
+
+describe('level notation', () => {
+  it.each(classicPack.levels.map(l => [l.name, l.layout.join('\n')]))('round-trips %s', (_, text) => {
+    const level = parse(text);
+    expect(parse(serializeLevel(level))).toEqual(level);
+  });
+
+  it('keeps headers through a round trip', () => {
+    const level = parse([
+      'name: Side Door',
+      'theme: chess',
+      'goal: 3,1 2x2',
+      'exit: right 1 2',
+      'HHPP.',
+      'VKKV.',
+      'VKKV.',
+      'HHPP.',
+    ].join('\n'));
+    expect(level.name).toBe('Side Door');
+    expect(level.theme).toBe('chess');
+    expect(level.goal).toEqual({ x: 3, y: 1, width: 2, height: 2 });
+    expect(level.exit).toEqual({ side: Direction.RIGHT, offset: 1, length: 2 });
+    expect(parse(serializeLevel(level))).toEqual(level);
+  });
+
+  it('reports malformed boards instead of guessing', () => {
+    expect(parseLevel('VKKV\nVKK\nP..P').errors).not.toEqual([]);
+    expect(parseLevel('PP..\nPP..').errors).not.toEqual([]);
+    expect(parseLevel('VKKV\nVKKV\nP#.P').level).toBeNull();
+  });
+});
@@ -0,0 +1,294 @@
+import { Block, BlockType, Direction, ExitPosition, LevelDefinition, Rect } from '../types';
+import { BLOCK_ID_PREFIXES, createBlock, createShape } from '../constants';
+import { getBlockCells, validateLevel } from './engine';
+
+// Compact ASCII level notation, one character per cell:
+//
+//   name: Heng Dao Li Ma
+//   VKKV
+//   VKKV
+//   VHHV
+//   VPPV
+//   P..P
+//
+// K (2x2), V (1x2), H (2x1) and P (1x1) are the classic pieces; runs of the
+// same letter are split into pieces from the top-left, so "VV" stacked four
+// high is two knights. Any other letter or digit is a custom shape made of all
+// connected cells carrying it. '.' is empty. Cells may be space separated, as
+// in the grid the hint prompt renders.
+//
+// Optional header lines (before or after the grid):
+//   name: <text>
+//   target: <char> | <x>,<y>   piece that must escape (default: first K)
+//   goal: <x>,<y> <w>x<h>      region the target must reach
+//   exit: <side> <offset> <length>
+//   theme: <id>                suggested look, e.g. chess (see themes.ts)
+// Goal and exit default to the target's size centered on the bottom edge.
+
+const CLASSIC_TYPES: Record<string, BlockType> = {
+  K: BlockType.KING,
+  V: BlockType.VERTICAL,
+  H: BlockType.HORIZONTAL,
+  P: BlockType.PAWN,
+};
+
+const TYPE_CHARS: Partial<Record<BlockType, string>> = {
+  [BlockType.KING]: 'K',
+  [BlockType.VERTICAL]: 'V',
+  [BlockType.HORIZONTAL]: 'H',
+  [BlockType.PAWN]: 'P',
+};
+
+// Letters handed out to custom shapes by the serializer
+const CUSTOM_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789ABCDEFGIJLMNOQRSTUWXYZ';
+
+const SIDE_NAMES: Record<string, Direction> = {
+  top: Direction.UP,
+  bottom: Direction.DOWN,
+  left: Direction.LEFT,
+  right: Direction.RIGHT,
+};
+
+// `level` is null whenever `errors` is non-empty
+export interface LevelParseResult {
+  level: LevelDefinition | null;
+  errors: string[];
+}
+
+// Target-sized region centered on the bottom edge, as on the classic board
+export const defaultGoal = (width: number, height: number, target: Block): Rect => ({
+  x: Math.floor((width - target.width) / 2),
+  y: height - target.height,
+  width: target.width,
+  height: target.height,
+});
+
+// The exit sits on whichever board edge the goal touches, bottom first
+export const defaultExit = (width: number, height: number, goal: Rect): ExitPosition | null => {
+  if (goal.y + goal.height === height) return { side: Direction.DOWN, offset: goal.x, length: goal.width };
+  if (goal.x + goal.width === width) return { side: Direction.RIGHT, offset: goal.y, length: goal.height };
+  if (goal.y === 0) return { side: Direction.UP, offset: goal.x, length: goal.width };
+  if (goal.x === 0) return { side: Direction.LEFT, offset: goal.y, length: goal.height };
+  return null;
+};
+
+// Classic pieces are the four rectangles with their standard size and no mask
+const classicChar = (b: Block): string | null => {
+  const char = TYPE_CHARS[b.type];
+  if (!char || b.mask) return null;
+  const canonical = createBlock('', b.type, 0, 0);
+  return canonical.width === b.width && canonical.height === b.height ? char : null;
+};
+
+export const parseLevel = (text: string, id = 'custom'): LevelParseResult => {
+  const errors: string[] = [];
+  const headers: Record<string, { value: string; line: number }> = {};
+  const rows: { cells: string[]; line: number }[] = [];
+
+  text.split('\n').forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+
+    const header = /^([a-zA-Z]+)\s*:\s*(.*)$/.exec(trimmed);
+    if (header) {
+      headers[header[1].toLowerCase()] = { value: header[2].trim(), line };
+      return;
+    }
+
+    const cells = /\s/.test(trimmed) ? trimmed.split(/\s+/) : [...trimmed];
+    const bad = cells.findIndex(c => !/^[A-Za-z0-9.]$/.test(c));
+    if (bad !== -1) {
+      errors.push(`Line ${line}, column ${bad + 1}: "${cells[bad]}" is not a piece letter or ".".`);
+      return;
+    }
+    rows.push({ cells, line });
+  });
+
+  if (rows.length === 0) {
+    return { level: null, errors: [...errors, 'No board rows found.'] };
+  }
+
+  const width = rows[0].cells.length;
+  const height = rows.length;
+  rows.forEach(r => {
+    if (r.cells.length !== width) {
+      errors.push(`Line ${r.line}: row has ${r.cells.length} cells, expected ${width}.`);
+    }
+  });
+  if (errors.length) return { level: null, errors };
+
+  const charAt = (x: number, y: number) => rows[y]?.cells[x];
+  const blockAt: (Block | null)[][] = rows.map(() => Array(width).fill(null));
+  const firstByChar = new Map<string, Block>();
+  const counts: Partial<Record<BlockType, number>> = {};
+  const blocks: Block[] = [];
+
+  const nextId = (type: BlockType) => {
+    const n = (counts[type] = (counts[type] || 0) + 1);
+    return type === BlockType.KING && n === 1 ? 'k' : `${BLOCK_ID_PREFIXES[type]}${n}`;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const char = charAt(x, y);
+      if (char === '.' || blockAt[y][x]) continue;
+      const where = `Line ${rows[y].line}, column ${x + 1}`;
+
+      let block: Block;
+      const type = CLASSIC_TYPES[char];
+      if (type) {
+        // Row-major scan means this cell is the piece's top-left corner
+        block = createBlock(nextId(type), type, x, y);
+        const fits = getBlockCells(block).every(c => charAt(c.x, c.y) === char && !blockAt[c.y]?.[c.x]);
+        if (!fits) {
+          errors.push(`${where}: "${char}" does not form a complete ${block.width}x${block.height} ${block.label}.`);
+          // Consume the matching cells so one broken piece is reported once
+          getBlockCells(block)
+            .filter(c => charAt(c.x, c.y) === char && blockAt[c.y]?.[c.x] === null)
+            .forEach(c => { blockAt[c.y][c.x] = block; });
+          continue;
+        }
+      } else {
+        // Custom shape: flood fill every connected cell with the same character
+        const cells: { x: number; y: number }[] = [];
+        const seen = new Set<string>([`${x},${y}`]);
+        const stack = [{ x, y }];
+        while (stack.length) {
+          const c = stack.pop()!;
+          cells.push(c);
+          for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+            const n = { x: c.x + dx, y: c.y + dy };
+            const key = `${n.x},${n.y}`;
+            if (!seen.has(key) && charAt(n.x, n.y) === char && !blockAt[n.y][n.x]) {
+              seen.add(key);
+              stack.push(n);
+            }
+          }
+        }
+        const minX = Math.min(...cells.map(c => c.x));
+        const minY = Math.min(...cells.map(c => c.y));
+        const maxX = Math.max(...cells.map(c => c.x));
+        const maxY = Math.max(...cells.map(c => c.y));
+        const mask = Array.from({ length: maxY - minY + 1 }, (_, dy) =>
+          Array.from({ length: maxX - minX + 1 }, (_, dx) => seen.has(`${minX + dx},${minY + dy}`) ? '#' : '.').join(''));
+        block = createShape(nextId(BlockType.SHAPE), minX, minY, mask);
+      }
+
+      getBlockCells(block).forEach(c => { blockAt[c.y][c.x] = block; });
+      if (!firstByChar.has(char)) firstByChar.set(char, block);
+      blocks.push(block);
+    }
+  }
+
+  if (errors.length) return { level: null, errors };
+
+  // Target piece
+  let target: Block | null | undefined = firstByChar.get('K');
+  const targetHeader = headers.target;
+  if (targetHeader) {
+    const coords = /^(\d+)\s*,\s*(\d+)$/.exec(targetHeader.value);
+    target = coords
+      ? blockAt[Number(coords[2])]?.[Number(coords[1])]
+      : firstByChar.get(targetHeader.value);
+    if (!target) errors.push(`Line ${targetHeader.line}: no piece found for target "${targetHeader.value}".`);
+  } else if (!target) {
+    errors.push('No King (K) on the board; add a "target:" line to pick the piece that escapes.');
+  }
+  if (!target) return { level: null, errors };
+
+  // Goal region
+  let goal = defaultGoal(width, height, target);
+  const goalHeader = headers.goal;
+  if (goalHeader) {
+    const m = /^(\d+)\s*,\s*(\d+)\s+(\d+)\s*x\s*(\d+)$/.exec(goalHeader.value);
+    if (m) {
+      goal = { x: Number(m[1]), y: Number(m[2]), width: Number(m[3]), height: Number(m[4]) };
+    } else {
+      errors.push(`Line ${goalHeader.line}: goal must look like "1,3 2x2".`);
+    }
+  }
+
+  // Exit
+  let exit = defaultExit(width, height, goal);
+  const exitHeader = headers.exit;
+  if (exitHeader) {
+    const m = /^(top|bottom|left|right)\s+(\d+)\s+(\d+)$/i.exec(exitHeader.value);
+    if (m) {
+      exit = { side: SIDE_NAMES[m[1].toLowerCase()], offset: Number(m[2]), length: Number(m[3]) };
+    } else {
+      errors.push(`Line ${exitHeader.line}: exit must look like "bottom 1 2".`);
+    }
+  } else if (!exit) {
+    errors.push('The goal does not touch a board edge; add an "exit:" line.');
+  }
+
+  if (errors.length || !exit) return { level: null, errors };
+
+  const level: LevelDefinition = {
+    id,
+    name: headers.name?.value || 'Custom Level',
+    width,
+    height,
+    blocks,
+    targetId: target.id,
+    goal,
+    exit,
+    ...(headers.theme?.value && { theme: headers.theme.value }),
+  };
+  const invalid = validateLevel(level);
+  return invalid.length ? { level: null, errors: invalid } : { level, errors: [] };
+};
+
+// Render a level (optionally at a different position than its start) back
+// into notation. Throws if the blocks cannot be drawn on one grid.
+export const serializeLevel = (level: LevelDefinition, blocks: Block[] = level.blocks): string => {
+  const invalid = validateLevel(level, blocks);
+  if (invalid.length) {
+    throw new Error(`Cannot serialize level: ${invalid.join(' ')}`);
+  }
+
+  const grid: string[][] = Array.from({ length: level.height }, () => Array(level.width).fill('.'));
+  let customIndex = 0;
+  blocks.forEach(b => {
+    let char = classicChar(b);
+    if (!char) {
+      if (customIndex >= CUSTOM_CHARS.length) {
+        throw new Error(`Cannot serialize level: more than ${CUSTOM_CHARS.length} custom pieces.`);
+      }
+      char = CUSTOM_CHARS[customIndex++];
+    }
+    for (const { x, y } of getBlockCells(b)) grid[y][x] = char;
+  });
+
+  const lines: string[] = [];
+  if (level.name) lines.push(`name: ${level.name}`);
+  if (level.theme) lines.push(`theme: ${level.theme}`);
+
+  // Only spell out the target when "first K in reading order" would be wrong
+  const target = blocks.find(b => b.id === level.targetId)!;
+  const firstKing = blocks
+    .filter(b => classicChar(b) === 'K')
+    .sort((a, b) => a.y - b.y || a.x - b.x)[0];
+  if (target !== firstKing) {
+    const cell = getBlockCells(target)[0];
+    lines.push(`target: ${cell.x},${cell.y}`);
+  }
+
+  const { goal, exit } = level;
+  const autoGoal = defaultGoal(level.width, level.height, target);
+  const goalIsDefault = goal.x === autoGoal.x && goal.y === autoGoal.y &&
+    goal.width === autoGoal.width && goal.height === autoGoal.height;
+  if (!goalIsDefault) {
+    lines.push(`goal: ${goal.x},${goal.y} ${goal.width}x${goal.height}`);
+  }
+
+  const autoExit = defaultExit(level.width, level.height, goal);
+  if (!autoExit || autoExit.side !== exit.side || autoExit.offset !== exit.offset || autoExit.length !== exit.length) {
+    const side = Object.keys(SIDE_NAMES).find(k => SIDE_NAMES[k] === exit.side);
+    lines.push(`exit: ${side} ${exit.offset} ${exit.length}`);
+  }
+
+  grid.forEach(row => lines.push(row.join('')));
+  return lines.join('\n');
+};
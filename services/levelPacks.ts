@@ -0,0 +1,153 @@
+import { GameState, LevelPack, MoveMetric, PackLevel, PackProgress } from '../types';
+import { parseLevel } from './levelNotation';
+import classicPack from '../packs/classic.json';
+
+// Level packs are JSON documents:
+//
+//   {
+//     "format": 1,
+//     "id": "classic",
+//     "title": "Royal Escape Classics",
+//     "author": "Royal Escape",
+//     "metric": "STEP",            // optional, what "par" counts
+//     "theme": "wooden",           // optional, suggested look for every level
+//     "levels": [
+//       { "name": "Stable Yard", "par": 10, "layout": ["PVP.", "VVVV", ...] }
+//     ]
+//   }
+//
+// `layout` is level notation (see levelNotation.ts), either one string or an
+// array of lines, headers included; a level's own "theme:" header beats the
+// pack's. Levels are played in order and each one unlocks once the one before
+// it is solved.
+
+const PACK_FORMAT = 1;
+
+// `pack` is null whenever `errors` is non-empty
+export interface LevelPackParseResult {
+  pack: LevelPack | null;
+  errors: string[];
+}
+
+// Pack levels get ids that say where they come from, so progress can be keyed by level id
+export const packLevelId = (packId: string, index: number) => `${packId}/${index + 1}`;
+
+export const parseLevelPack = (data: unknown): LevelPackParseResult => {
+  if (!data || typeof data !== 'object') return { pack: null, errors: ['A level pack must be a JSON object.'] };
+  const raw = data as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (raw.format !== PACK_FORMAT) errors.push(`Unsupported pack format ${JSON.stringify(raw.format)}; expected ${PACK_FORMAT}.`);
+  const text = (key: string) => {
+    const value = raw[key];
+    if (typeof value !== 'string' || !value.trim()) errors.push(`"${key}" must be a non-empty string.`);
+    return typeof value === 'string' ? value.trim() : '';
+  };
+  const id = text('id');
+  const title = text('title');
+  const author = text('author');
+
+  const metric = raw.metric ?? MoveMetric.STEP;
+  if (metric !== MoveMetric.STEP && metric !== MoveMetric.SLIDE) errors.push(`"metric" must be "STEP" or "SLIDE".`);
+  if (raw.theme !== undefined && typeof raw.theme !== 'string') errors.push('"theme" must be a string.');
+  if (!Array.isArray(raw.levels) || raw.levels.length === 0) errors.push('"levels" must be a non-empty array.');
+  if (errors.length) return { pack: null, errors };
+
+  const levels: PackLevel[] = [];
+  (raw.levels as unknown[]).forEach((entry, i) => {
+    const where = `Level ${i + 1}`;
+    const item = (entry ?? {}) as Record<string, unknown>;
+    const layout = Array.isArray(item.layout) ? item.layout.join('\n') : item.layout;
+    if (typeof layout !== 'string') {
+      errors.push(`${where}: "layout" must be a string or an array of lines.`);
+      return;
+    }
+    if (typeof item.par !== 'number' || !Number.isInteger(item.par) || item.par < 1) {
+      errors.push(`${where}: "par" must be a positive whole number.`);
+      return;
+    }
+    const parsed = parseLevel(layout, packLevelId(id, i));
+    if (!parsed.level) {
+      errors.push(...parsed.errors.map(e => `${where}: ${e}`));
+      return;
+    }
+    const name = typeof item.name === 'string' && item.name.trim() ? item.name.trim() : parsed.level.name;
+    const theme = parsed.level.theme ?? raw.theme as string | undefined;
+    levels.push({ level: { ...parsed.level, name, ...(theme && { theme }) }, par: item.par });
+  });
+
+  return errors.length
+    ? { pack: null, errors }
+    : { pack: { id, title, author, metric: metric as MoveMetric, levels }, errors: [] };
+};
+
+const builtinPack = (data: unknown): LevelPack => {
+  const { pack, errors } = parseLevelPack(data);
+  if (!pack) throw new Error(`Built-in level pack is invalid: ${errors.join(' ')}`);
+  return pack;
+};
+
+export const BUILTIN_PACKS: LevelPack[] = [builtinPack(classicPack)];
+
+// Pack and index a level id belongs to, if any
+export const findPackLevel = (packs: LevelPack[], levelId: string): { pack: LevelPack; index: number } | null => {
+  for (const pack of packs) {
+    const index = pack.levels.findIndex(l => l.level.id === levelId);
+    if (index !== -1) return { pack, index };
+  }
+  return null;
+};
+
+export const isLevelSolved = (progress: PackProgress, levelId: string) => !!progress[levelId];
+
+// The first level is always open; every other one needs its predecessor solved
+export const isLevelUnlocked = (pack: LevelPack, index: number, progress: PackProgress) =>
+  index === 0 || isLevelSolved(progress, pack.levels[index - 1].level.id);
+
+// Progress with a won game folded in, keeping the best count per metric, the
+// best time and the most stars. A game the computer played moves in still
+// counts as solved but sets no bests.
+export const recordSolve = (progress: PackProgress, game: GameState, timeMs?: number, stars?: number): PackProgress => {
+  const previous = progress[game.level.id];
+  const bestMoves = previous?.bestMoves ?? {};
+  if (game.autoMoves > 0) {
+    return { ...progress, [game.level.id]: previous ?? { bestMoves } };
+  }
+  const best = bestMoves[game.metric];
+  const bestTimeMs = timeMs === undefined ? previous?.bestTimeMs
+    : previous?.bestTimeMs === undefined ? timeMs
+    : Math.min(previous.bestTimeMs, timeMs);
+  const bestStars = Math.max(previous?.stars ?? 0, stars ?? 0);
+  return {
+    ...progress,
+    [game.level.id]: {
+      bestMoves: { ...bestMoves, [game.metric]: best === undefined ? game.moves : Math.min(best, game.moves) },
+      ...(bestTimeMs === undefined ? {} : { bestTimeMs }),
+      ...(bestStars ? { stars: bestStars } : {}),
+    },
+  };
+};
+
+// Best of both sides for every level, e.g. local and synced progress
+export const mergeProgress = (a: PackProgress, b: PackProgress): PackProgress => {
+  const merged: PackProgress = { ...a };
+  for (const [id, theirs] of Object.entries(b)) {
+    const ours = merged[id];
+    if (!ours) {
+      merged[id] = theirs;
+      continue;
+    }
+    const bestMoves = { ...ours.bestMoves };
+    for (const [metric, moves] of Object.entries(theirs.bestMoves) as [MoveMetric, number][]) {
+      bestMoves[metric] = bestMoves[metric] === undefined ? moves : Math.min(bestMoves[metric]!, moves);
+    }
+    const times = [ours.bestTimeMs, theirs.bestTimeMs].filter((t): t is number => t !== undefined);
+    const stars = Math.max(ours.stars ?? 0, theirs.stars ?? 0);
+    merged[id] = {
+      bestMoves,
+      ...(times.length ? { bestTimeMs: Math.min(...times) } : {}),
+      ...(stars ? { stars } : {}),
+    };
+  }
+  return merged;
+};
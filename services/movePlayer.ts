@@ -0,0 +1,83 @@
+// Plays through a list of moves on a timer, for replays and the computer's
+// auto-solve. The player only tracks a position, 0..length moves applied;
+// what a position looks like is up to `onChange`, which hears about every
+// change of position or play state.
+
+// Time per move at 1x
+export const BASE_STEP_MS = 250;
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+export class MovePlayer {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private currentPosition = 0;
+  private currentSpeed: number;
+
+  constructor(
+    private readonly length: number,
+    private readonly onChange: (position: number, playing: boolean) => void,
+    speed = 1
+  ) {
+    this.currentSpeed = speed;
+  }
+
+  get position() {
+    return this.currentPosition;
+  }
+
+  get isPlaying() {
+    return this.timer !== null;
+  }
+
+  get speed() {
+    return this.currentSpeed;
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => this.tick(), BASE_STEP_MS / this.currentSpeed);
+  }
+
+  private tick() {
+    this.timer = null;
+    this.currentPosition++;
+    if (this.currentPosition < this.length) this.schedule();
+    this.onChange(this.currentPosition, this.isPlaying);
+  }
+
+  // Plays on from the current position, or from the start when at the end
+  play() {
+    if (this.isPlaying || this.length === 0) return;
+    if (this.currentPosition >= this.length) this.currentPosition = 0;
+    this.schedule();
+    this.onChange(this.currentPosition, true);
+  }
+
+  pause() {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.onChange(this.currentPosition, false);
+  }
+
+  toggle() {
+    if (this.isPlaying) this.pause();
+    else this.play();
+  }
+
+  seek(position: number) {
+    this.currentPosition = Math.max(0, Math.min(this.length, position));
+    this.onChange(this.currentPosition, this.isPlaying);
+  }
+
+  // Pauses, then moves `delta` moves forward or back
+  step(delta: number) {
+    this.pause();
+    this.seek(this.currentPosition + delta);
+  }
+
+  setSpeed(speed: number) {
+    this.currentSpeed = speed;
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.schedule();
+  }
+}
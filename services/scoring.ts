@@ -0,0 +1,43 @@
+import { GameState, LevelDefinition, LevelPack, MoveMetric } from '../types';
+import { countMoves } from './engine';
+import { findPackLevel } from './levelPacks';
+import { SolverTask, solveAsync } from './solverClient';
+
+// Par and star ratings for finished games.
+//
+//   3 stars: at or under par, no help
+//   2 stars: within half as many moves again as par, used hints, or par is
+//            unknown (still being solved, or the solver found none)
+//   1 star:  anything else, and every game the computer played moves in
+
+// Moves over par that still earn two stars, as a fraction of par
+const TWO_STAR_MARGIN = 0.5;
+
+// A pack's own par when it counts in the same metric, otherwise the solver's
+// optimal length from the level's starting layout. Resolves to null for
+// unsolvable layouts.
+export const findPar = (level: LevelDefinition, metric: MoveMetric, packs: LevelPack[]): SolverTask<number | null> => {
+  const found = findPackLevel(packs, level.id);
+  if (found && found.pack.metric === metric) {
+    return { promise: Promise.resolve(found.pack.levels[found.index].par), cancel: () => {} };
+  }
+  const task = solveAsync(level, level.blocks, metric);
+  return {
+    promise: task.promise.then(path => path && countMoves(
+      path.map(m => ({ blockId: level.blocks[m.blockIndex].id, direction: m.direction })), metric)),
+    cancel: task.cancel,
+  };
+};
+
+export const isAssisted = (game: GameState) => game.hintsUsed > 0 || game.autoMoves > 0;
+
+// Stars for a won game. Without a par there is nothing to beat, so the par
+// star cannot be earned and only help counts against the rest.
+export const starRating = (game: GameState, par: number | null): number => {
+  if (game.autoMoves > 0) return 1;
+  const stars = par === null ? 2
+    : game.moves <= par ? 3
+    : game.moves <= Math.floor(par * (1 + TWO_STAR_MARGIN)) ? 2
+    : 1;
+  return game.hintsUsed > 0 ? Math.min(stars, 2) : stars;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { Block, Direction, MoveMetric } from '../types';
+import { HENG_DAO_LI_MA } from '../constants';
+import { applySlide, createGameState } from './engine';
+import { buildShareUrl, loadSharedPuzzle } from './shareLink';
+
+const ORIGIN = 'https://example.test';
+
+// Block ids and order come from the notation, so compare pieces by kind and place
+const layout = (blocks: Block[]) => blocks.map(b => `${b.type}@${b.x},${b.y}`).sort();
+
+const load = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return loadSharedPuzzle(pathname, search)!;
+};
+
+describe('share links', () => {
+  it('round-trips a position and its move count in either metric', () => {
+    for (const metric of [MoveMetric.STEP, MoveMetric.SLIDE]) {
+      const game = applySlide(createGameState(HENG_DAO_LI_MA, metric), [
+        { blockId: 'p3', direction: Direction.RIGHT },
+        { blockId: 'p3', direction: Direction.RIGHT },
+      ])!;
+      const { game: loaded, error } = load(buildShareUrl(ORIGIN, game));
+      expect(error).toBeNull();
+      expect(loaded!.metric).toBe(metric);
+      expect(loaded!.moves).toBe(game.moves);
+      expect(layout(loaded!.blocks)).toEqual(layout(game.blocks));
+    }
+  });
+
+  it('reports a mangled link instead of throwing', () => {
+    expect(loadSharedPuzzle('/p/%E0%A4%A', '')).toEqual({ game: null, error: 'The puzzle link is damaged.' });
+    expect(loadSharedPuzzle('/p/9abc', '').game).toBeNull();
+  });
+
+  it('ignores other paths', () => {
+    expect(loadSharedPuzzle('/', '')).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { Block, GameState, LevelDefinition, Move, MoveMetric } from '../types';
+import { DIRECTIONS, createGameState, getBlockCells, replayMoves } from './engine';
+import { LevelParseResult, parseLevel, serializeLevel } from './levelNotation';
+
+// Shareable puzzle links: /p/<layout>?moves=<moves>&metric=SLIDE
+//
+// Both parts start with a version character so the format can change later
+// without breaking links already pasted into chat. Decoders must keep
+// accepting every version ever produced.
+//
+//   layout v1: '1' + base64url(level notation text)
+//   moves  v1: '1' + one base64url char per unit move, value = blockIndex * 4 + direction.
+//              Blocks past index 15 are written as '~' + two chars (value split in 6-bit halves).
+//              Block indices follow reading order of each block's first cell, which is
+//              the order parseLevel creates them in.
+//   metric:    the MoveMetric the moves were counted in; left out for STEP, so
+//              links from before it was added replay as they always did.
+
+const LAYOUT_VERSION = '1';
+const MOVES_VERSION = '1';
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const WIDE_MOVE = '~';
+
+export const SHARE_PATH_PREFIX = '/p/';
+
+export interface SharedPuzzle {
+  game: GameState | null;
+  error: string | null;
+}
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string): string => {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// Stable block order shared by encoder and decoder
+const readingOrder = (blocks: Block[]): Block[] =>
+  [...blocks].sort((a, b) => {
+    const ca = getBlockCells(a)[0];
+    const cb = getBlockCells(b)[0];
+    return ca.y - cb.y || ca.x - cb.x;
+  });
+
+export const encodeLayout = (level: LevelDefinition): string =>
+  LAYOUT_VERSION + toBase64Url(serializeLevel(level));
+
+export const encodeMoves = (level: LevelDefinition, moves: Move[]): string => {
+  const order = readingOrder(level.blocks).map(b => b.id);
+  let out = MOVES_VERSION;
+  for (const move of moves) {
+    const value = order.indexOf(move.blockId) * 4 + DIRECTIONS.indexOf(move.direction);
+    if (value < 0) throw new Error(`Cannot encode move for unknown block "${move.blockId}".`);
+    out += value < 64
+      ? ALPHABET[value]
+      : WIDE_MOVE + ALPHABET[value >> 6] + ALPHABET[value & 63];
+  }
+  return out;
+};
+
+export const buildShareUrl = (origin: string, game: GameState): string => {
+  const base = `${origin}${SHARE_PATH_PREFIX}${encodeLayout(game.level)}`;
+  if (!game.history.length) return base;
+  const metric = game.metric === MoveMetric.STEP ? '' : `&metric=${game.metric}`;
+  return `${base}?moves=${encodeMoves(game.level, game.history)}${metric}`;
+};
+
+const decodeLayout = (code: string): LevelParseResult => {
+  const version = code[0];
+  if (version !== LAYOUT_VERSION) {
+    return { level: null, errors: [`Unknown puzzle link version "${version}".`] };
+  }
+  let text: string;
+  try {
+    text = fromBase64Url(code.slice(1));
+  } catch {
+    return { level: null, errors: ['The puzzle link is damaged.'] };
+  }
+  return parseLevel(text, `shared-${code}`);
+};
+
+export const decodeMoves = (level: LevelDefinition, code: string): { moves: Move[]; error: string | null } => {
+  if (code[0] !== MOVES_VERSION) {
+    return { moves: [], error: `Unknown move list version "${code[0]}".` };
+  }
+  const order = readingOrder(level.blocks);
+  const moves: Move[] = [];
+  for (let i = 1; i < code.length; i++) {
+    let value: number;
+    if (code[i] === WIDE_MOVE) {
+      const high = ALPHABET.indexOf(code[i + 1] ?? '');
+      const low = ALPHABET.indexOf(code[i + 2] ?? '');
+      value = high < 0 || low < 0 ? -1 : high * 64 + low;
+      i += 2;
+    } else {
+      value = ALPHABET.indexOf(code[i]);
+    }
+    const block = order[value >> 2];
+    if (value < 0 || !block) {
+      return { moves, error: `Move ${moves.length + 1} in the link is damaged.` };
+    }
+    moves.push({ blockId: block.id, direction: DIRECTIONS[value & 3] });
+  }
+  return { moves, error: null };
+};
+
+// Rebuild a game from a /p/ path and optional moves query. Moves are replayed
+// through the engine, so an illegal move stops the replay at the last legal
+// position and reports it. Never throws: a mangled link comes back as an error.
+export const loadSharedPuzzle = (pathname: string, search: string): SharedPuzzle | null => {
+  if (!pathname.startsWith(SHARE_PATH_PREFIX)) return null;
+  let code: string;
+  try {
+    code = decodeURIComponent(pathname.slice(SHARE_PATH_PREFIX.length).replace(/\/+$/, ''));
+  } catch {
+    return { game: null, error: 'The puzzle link is damaged.' };
+  }
+  if (!code) return null;
+
+  const { level, errors } = decodeLayout(code);
+  if (!level) return { game: null, error: errors.join(' ') };
+
+  const params = new URLSearchParams(search);
+  const metric = params.get('metric') === MoveMetric.SLIDE ? MoveMetric.SLIDE : MoveMetric.STEP;
+  const movesCode = params.get('moves');
+  if (!movesCode) return { game: createGameState(level, metric), error: null };
+
+  const { moves, error } = decodeMoves(level, movesCode);
+  const { game, failedAt } = replayMoves(level, moves, metric);
+  if (failedAt !== -1) return { game, error: `Move ${failedAt + 1} in the link is not legal; stopped before it.` };
+  return { game: { ...game, selectedBlockId: null }, error };
+};
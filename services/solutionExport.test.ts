@@ -0,0 +1,73 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { Direction, Move, MoveMetric } from '../types';
+import { HENG_DAO_LI_MA } from '../constants';
+import { BOARD_PALETTE, frameSize } from './boardRenderer';
+import { encodeGif } from './gifEncoder';
+import { formatMoveList, renderSolution } from './solutionExport';
+
+const { UP, DOWN, LEFT, RIGHT } = Direction;
+const level = HENG_DAO_LI_MA;
+const moves: Move[] = [
+  { blockId: 'p3', direction: RIGHT },
+  { blockId: 'p3', direction: UP },
+  { blockId: 'p4', direction: LEFT },
+  { blockId: 'p4', direction: LEFT },
+  { blockId: 'p2', direction: DOWN },
+];
+
+const encode = () => {
+  const { frames, delays } = renderSolution(level, moves);
+  return encodeGif(frames, delays, BOARD_PALETTE);
+};
+
+// Frame delays in milliseconds, read back from a GIF's graphic control blocks
+const readGif = (bytes: Uint8Array) => {
+  const header = String.fromCharCode(...bytes.slice(0, 6));
+  const width = bytes[6] | (bytes[7] << 8);
+  const height = bytes[8] | (bytes[9] << 8);
+  let i = 13 + (bytes[10] & 0x80 ? 3 * (2 << (bytes[10] & 7)) : 0);
+  const skipSubBlocks = () => { while (bytes[i]) i += bytes[i] + 1; i++; };
+  const delays: number[] = [];
+  let images = 0;
+  while (bytes[i] !== 0x3b) {
+    if (bytes[i] === 0x21) {
+      if (bytes[i + 1] === 0xf9) delays.push((bytes[i + 4] | (bytes[i + 5] << 8)) * 10);
+      i += 2;
+      skipSubBlocks();
+    } else if (bytes[i] === 0x2c) {
+      const packed = bytes[i + 9];
+      i += 10 + (packed & 0x80 ? 3 * (2 << (packed & 7)) : 0) + 1;
+      skipSubBlocks();
+      images++;
+    } else {
+      throw new Error(`Unexpected block 0x${bytes[i].toString(16)} at ${i}`);
+    }
+  }
+  return { header, width, height, images, delays };
+};
+
+describe('GIF export', () => {
+  it('writes one image per rendered frame at the board size', () => {
+    const { frames, delays } = renderSolution(level, moves);
+    const gif = readGif(encode());
+    expect(gif.header).toBe('GIF89a');
+    expect({ width: gif.width, height: gif.height }).toEqual(frameSize(level));
+    expect(gif.images).toBe(frames.length);
+    expect(gif.delays).toEqual(delays.map(ms => Math.round(ms / 10) * 10));
+  });
+
+  // Pinned output; a deliberate change to the renderer or encoder updates it
+  it('encodes the same solution to the same bytes', () => {
+    const digest = createHash('sha256').update(encode()).digest('hex');
+    expect(createHash('sha256').update(encode()).digest('hex')).toBe(digest);
+    expect(digest).toBe('8924944bed801a8eab823e0ebe14300cd878950e900effb2876f12d2f0d0e70f');
+  });
+});
+
+describe('formatMoveList', () => {
+  it('writes one token per move in the metric', () => {
+    expect(formatMoveList(moves, MoveMetric.STEP)).toBe('P3→ P3↑ P4← P4← P2↓');
+    expect(formatMoveList(moves, MoveMetric.SLIDE)).toBe('P3→↑ P4←← P2↓');
+  });
+});
@@ -0,0 +1,118 @@
+import { Block, Direction, LevelDefinition, Move, MoveMetric } from '../types';
+import { replayFrames } from './engine';
+import { BOARD_PALETTE, PlacedBlock, RenderOptions, frameSize, frameToRgba, renderBoard } from './boardRenderer';
+import { IndexedFrame, encodeGif } from './gifEncoder';
+
+// Exports of a solution: a text move list, an animated GIF and a WebM video.
+// The move list and the GIF depend only on level and moves, so the same
+// solution always exports to the same bytes (solutionExport.test.ts pins
+// them). WebM goes through the browser's MediaRecorder and is not
+// byte-stable, though the frames fed to it are.
+
+export const DIRECTION_ARROWS: Record<Direction, string> = {
+  [Direction.UP]: '↑',
+  [Direction.DOWN]: '↓',
+  [Direction.LEFT]: '←',
+  [Direction.RIGHT]: '→',
+};
+
+// Move list notation: the block's id in capitals and one arrow per cell, e.g.
+// "K↓ V2→". Under SLIDE the shifts of one slide share a token ("V2→→"), so
+// the token count is the move count in either metric.
+export const formatMoveList = (moves: Move[], metric = MoveMetric.STEP): string => {
+  const tokens: string[] = [];
+  moves.forEach((move, i) => {
+    const arrow = DIRECTION_ARROWS[move.direction];
+    if (metric === MoveMetric.SLIDE && i > 0 && moves[i - 1].blockId === move.blockId) {
+      tokens[tokens.length - 1] += arrow;
+    } else {
+      tokens.push(move.blockId.toUpperCase() + arrow);
+    }
+  });
+  return tokens.join(' ');
+};
+
+export interface AnimationOptions extends RenderOptions {
+  stepMs?: number; // Time per move
+  tweenFrames?: number; // In-between frames per move
+  holdStartMs?: number;
+  holdEndMs?: number;
+}
+
+export interface SolutionAnimation {
+  frames: IndexedFrame[];
+  delays: number[]; // Milliseconds each frame stays up
+  width: number;
+  height: number;
+}
+
+// Every frame of a solution played from the level's start. Moves past an
+// illegal one are dropped.
+export const renderSolution = (level: LevelDefinition, moves: Move[], options: AnimationOptions = {}): SolutionAnimation => {
+  const { stepMs = 300, tweenFrames = 2, holdStartMs = 800, holdEndMs = 2000 } = options;
+  const positions = replayFrames(level, moves);
+  const place = (blocks: Block[], highlightId: string | null): PlacedBlock[] =>
+    blocks.map(block => ({ block, x: block.x, y: block.y, highlighted: block.id === highlightId }));
+
+  const frames: IndexedFrame[] = [renderBoard(level, place(positions[0], null), options)];
+  const delays: number[] = [holdStartMs];
+  const frameMs = Math.round(stepMs / (tweenFrames + 1));
+
+  for (let i = 1; i < positions.length; i++) {
+    const { blockId } = moves[i - 1];
+    const before = positions[i - 1];
+    const after = positions[i];
+    for (let t = 1; t <= tweenFrames + 1; t++) {
+      const f = t / (tweenFrames + 1);
+      const placed = after.map((block, b) => ({
+        block,
+        x: before[b].x + (block.x - before[b].x) * f,
+        y: before[b].y + (block.y - before[b].y) * f,
+        highlighted: block.id === blockId,
+      }));
+      frames.push(renderBoard(level, placed, options));
+      delays.push(frameMs);
+    }
+  }
+  // Last position without the highlight, held so the finish reads
+  frames.push(renderBoard(level, place(positions[positions.length - 1], null), options));
+  delays.push(holdEndMs);
+
+  return { frames, delays, ...frameSize(level, options) };
+};
+
+export const exportGif = (level: LevelDefinition, moves: Move[], options: AnimationOptions = {}): Blob => {
+  const { frames, delays } = renderSolution(level, moves, options);
+  return new Blob([encodeGif(frames, delays, BOARD_PALETTE)], { type: 'image/gif' });
+};
+
+export const canExportWebm = () =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported('video/webm') &&
+  typeof HTMLCanvasElement !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+
+// Plays the frames onto an offscreen canvas in real time and records it
+export const exportWebm = async (level: LevelDefinition, moves: Move[], options: AnimationOptions = {}): Promise<Blob> => {
+  const { frames, delays, width, height } = renderSolution(level, moves, options);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available.');
+
+  const draw = (frame: IndexedFrame) => ctx.putImageData(new ImageData(frameToRgba(frame), width, height), 0, 0);
+  draw(frames[0]);
+
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  for (let i = 0; i < frames.length; i++) {
+    draw(frames[i]);
+    await new Promise(resolve => setTimeout(resolve, delays[i]));
+  }
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { MoveMetric } from '../types';
+import { HENG_DAO_LI_MA } from '../constants';
+import { countMoves, replayMoves } from './engine';
+import { parseLevel } from './levelNotation';
+import { findSolution } from './solver';
+
+// Known optimum for the classic layout in each metric
+const OPTIMUM = { [MoveMetric.STEP]: 116, [MoveMetric.SLIDE]: 81 };
+
+describe('findSolution', () => {
+  it.each([MoveMetric.STEP, MoveMetric.SLIDE])('solves Heng Dao Li Ma optimally in %s moves', metric => {
+    const level = HENG_DAO_LI_MA;
+    const path = findSolution(level, level.blocks, metric)!;
+    const moves = path.map(m => ({ blockId: level.blocks[m.blockIndex].id, direction: m.direction }));
+    expect(countMoves(moves, metric)).toBe(OPTIMUM[metric]);
+
+    const { game, failedAt } = replayMoves(level, moves, metric);
+    expect(failedAt).toBe(-1);
+    expect(game.isWon).toBe(true);
+  });
+
+  it('returns null for a layout with no way out', () => {
+    const { level } = parseLevel('goal: 1,0 2x2\nKKV\nKKV');
+    expect(findSolution(level!)).toBeNull();
+  });
+});
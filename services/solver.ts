@@ -1,141 +1,392 @@
-import { Block, BlockType, Direction } from '../types';
-import { GRID_WIDTH, GRID_HEIGHT } from '../constants';
+import { Block, Direction, LevelDefinition, MoveMetric } from '../types';
+import { DIRECTIONS, DIRECTION_DELTAS, getCellOffsets } from './engine';
 
 export interface SimplifiedMove {
   blockIndex: number;
   direction: Direction;
 }
 
-interface SolverBlock {
-  type: BlockType;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+// Breadth-first search over board states.
+//
+// This is a specialised fast path for the rules in engine.ts: blocks live in a
+// flat Uint8Array of (x, y) pairs per state, and visited states are keyed by a
+// packed number (or bigint on boards too large for 53 bits) built from a grid
+// of shape codes. Each state remembers only its parent and the move that led
+// to it, so paths are rebuilt once at the end instead of being copied into
+// every queue entry. When the level is left-right symmetric a state and its
+// mirror image share one key, roughly halving the search.
+//
+// Under MoveMetric.SLIDE every position one block can reach on its own is a
+// neighbour, so BFS depth counts slides; the unit shifts making up each slide
+// are recovered during path reconstruction.
+
+type StateKey = number | bigint;
+
+export interface SearchProgress {
+  explored: number; // States expanded so far
+  depth: number; // BFS layer currently being expanded
+}
+
+// How many expanded states between progress callbacks
+const PROGRESS_INTERVAL = 4096;
+
+export interface SearchOptions {
+  stopAtGoal?: boolean; // End at the first goal state instead of exploring everything
+  // Keep playing past goal states as if reaching the goal did not end the
+  // game, so positions beyond a win are explored too
+  expandGoals?: boolean;
+  metric?: MoveMetric;
+  onProgress?: (progress: SearchProgress) => void;
+  // Called for every legal move out of an expanded state, including moves to
+  // states seen before. `to` equals `from` when a move only mirrors the board.
+  onEdge?: (from: number, to: number) => void;
+}
+
+interface SearchSpace {
+  level: LevelDefinition;
+  metric: MoveMetric;
+  blockCount: number;
+  cellCount: number;
+  offsets: { dx: number; dy: number }[][]; // Filled cells per block
+  widths: number[];
+  heights: number[];
+  shapeCodes: number[]; // Per block
+  mirrorCodes: number[] | null; // Per shape code, null when the level is not symmetric
+  targetIndex: number;
+  base: number;
+  useBigInt: boolean;
 }
 
-interface SolverState {
-  blocks: SolverBlock[];
-  path: SimplifiedMove[];
+export interface SearchResult {
+  space: SearchSpace;
+  positions: Uint8Array; // stateCount * blockCount * 2
+  parents: Int32Array; // -1 for the start state
+  moveCodes: Int32Array; // blockIndex * 4 + direction index of the first shift, -1 for the start state
+  stateCount: number;
+  goalState: number; // First goal state found, -1 if none
 }
 
-// Create a unique hash for the board state to detect visited states.
-// We map block types to integers: 1=King, 2=Vertical, 3=Horizontal, 4=Pawn.
-// 0 represents empty space.
-const encodeState = (blocks: SolverBlock[]): string => {
-  const grid = new Int8Array(GRID_WIDTH * GRID_HEIGHT).fill(0);
-  
-  for (const b of blocks) {
-    let code = 0;
-    if (b.type === BlockType.KING) code = 1;
-    else if (b.type === BlockType.VERTICAL) code = 2;
-    else if (b.type === BlockType.HORIZONTAL) code = 3;
-    else if (b.type === BlockType.PAWN) code = 4;
-    
-    for (let dy = 0; dy < b.height; dy++) {
-      for (let dx = 0; dx < b.width; dx++) {
-        const idx = (b.y + dy) * GRID_WIDTH + (b.x + dx);
-        grid[idx] = code;
+const mirrorMask = (b: Block): string =>
+  (b.mask ?? []).map(row => [...row.padEnd(b.width, '.')].reverse().join('')).join('/');
+
+const shapeKey = (b: Block, mask = (b.mask ?? []).join('/')) => `${b.type}:${b.width}x${b.height}:${mask}`;
+
+// Identical pieces are interchangeable, so states are keyed by shape rather
+// than by block id. Every distinct (type, mask) pair gets a code from 1 up;
+// the target block always gets its own code so it is never confused with a
+// look-alike. 0 represents empty space.
+const prepareSearch = (level: LevelDefinition, blocks: Block[], metric: MoveMetric): SearchSpace => {
+  const codes = new Map<string, number>();
+  const counts = new Map<string, number>();
+  const shapeCodes = blocks.map(b => {
+    const key = b.id === level.targetId ? 'target' : shapeKey(b);
+    counts.set(key, (counts.get(key) || 0) + 1);
+    if (!codes.has(key)) codes.set(key, codes.size + 1);
+    return codes.get(key)!;
+  });
+  const targetIndex = blocks.findIndex(b => b.id === level.targetId);
+
+  // Mirror symmetry holds when the goal and target are symmetric and every
+  // other shape's mirror image appears on the board equally often.
+  const { goal } = level;
+  const target = blocks[targetIndex];
+  let mirrorCodes: number[] | null = null;
+  const goalSymmetric = level.width - goal.x - goal.width === goal.x;
+  const targetSymmetric = !!target && mirrorMask(target) === (target.mask ?? []).join('/');
+  if (goalSymmetric && targetSymmetric) {
+    const map = [0];
+    let symmetric = true;
+    blocks.forEach((b, i) => {
+      if (b.id === level.targetId) {
+        map[shapeCodes[i]] = shapeCodes[i];
+        return;
       }
-    }
+      const mirrored = shapeKey(b, mirrorMask(b));
+      const mirroredCode = codes.get(mirrored);
+      if (!mirroredCode || counts.get(mirrored) !== counts.get(shapeKey(b))) symmetric = false;
+      else map[shapeCodes[i]] = mirroredCode;
+    });
+    if (symmetric) mirrorCodes = map;
   }
-  return grid.join('');
+
+  const cellCount = level.width * level.height;
+  const base = codes.size + 1;
+  return {
+    level,
+    metric,
+    blockCount: blocks.length,
+    cellCount,
+    offsets: blocks.map(b => getCellOffsets(b)),
+    widths: blocks.map(b => b.width),
+    heights: blocks.map(b => b.height),
+    shapeCodes,
+    mirrorCodes,
+    targetIndex,
+    base,
+    useBigInt: Math.pow(base, cellCount) > Number.MAX_SAFE_INTEGER,
+  };
 };
 
-const isSolved = (blocks: SolverBlock[]): boolean => {
-  const k = blocks.find(b => b.type === BlockType.KING);
-  // King must reach (1, 3)
-  return k ? (k.x === 1 && k.y === 3) : false;
+// Pack the shape-code grid, in reading order and (if symmetric) mirrored, and
+// keep the smaller of the two so mirror images collide.
+const packGrid = (space: SearchSpace, grid: Int8Array): StateKey => {
+  const { level, base, mirrorCodes } = space;
+  const { width, height } = level;
+
+  if (!space.useBigInt) {
+    let key = 0;
+    for (let i = 0; i < grid.length; i++) key = key * base + grid[i];
+    if (!mirrorCodes) return key;
+    let mirror = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = width - 1; x >= 0; x--) mirror = mirror * base + mirrorCodes[grid[y * width + x]];
+    }
+    return mirror < key ? mirror : key;
+  }
+
+  const bigBase = BigInt(base);
+  let key = 0n;
+  for (let i = 0; i < grid.length; i++) key = key * bigBase + BigInt(grid[i]);
+  if (!mirrorCodes) return key;
+  let mirror = 0n;
+  for (let y = 0; y < height; y++) {
+    for (let x = width - 1; x >= 0; x--) mirror = mirror * bigBase + BigInt(mirrorCodes[grid[y * width + x]]);
+  }
+  return mirror < key ? mirror : key;
 };
 
-// Check if a specific block can move in a direction
-const canMove = (movingBlockIndex: number, dir: Direction, allBlocks: SolverBlock[]): boolean => {
-  const b = allBlocks[movingBlockIndex];
-  let nx = b.x;
-  let ny = b.y;
-  
-  if (dir === Direction.UP) ny--;
-  else if (dir === Direction.DOWN) ny++;
-  else if (dir === Direction.LEFT) nx--;
-  else if (dir === Direction.RIGHT) nx++;
-  
-  // 1. Boundary Check
-  if (nx < 0 || ny < 0 || nx + b.width > GRID_WIDTH || ny + b.height > GRID_HEIGHT) {
-    return false;
+// Block index per cell for `state`, -1 where empty
+const fillOwner = (space: SearchSpace, positions: Uint8Array, state: number, owner: Int16Array) => {
+  const { blockCount, offsets, level } = space;
+  owner.fill(-1);
+  const base = state * blockCount * 2;
+  for (let i = 0; i < blockCount; i++) {
+    const bx = positions[base + i * 2];
+    const by = positions[base + i * 2 + 1];
+    for (const { dx, dy } of offsets[i]) owner[(by + dy) * level.width + bx + dx] = i;
   }
-  
-  // 2. Collision Check (AABB vs all other blocks)
-  for (let i = 0; i < allBlocks.length; i++) {
-    if (i === movingBlockIndex) continue;
-    const other = allBlocks[i];
-    
-    // Check overlap
-    if (nx < other.x + other.width &&
-        nx + b.width > other.x &&
-        ny < other.y + other.height &&
-        ny + b.height > other.y) {
-      return false; // Collision detected
-    }
+};
+
+// Can block `i`, currently at (x, y), shift one cell in direction `d`?
+// Cells owned by the block itself count as free.
+const canShift = (space: SearchSpace, owner: Int16Array, i: number, x: number, y: number, d: number): boolean => {
+  const { width, height } = space.level;
+  const { dx: mx, dy: my } = DIRECTION_DELTAS[DIRECTIONS[d]];
+  const nx = x + mx;
+  const ny = y + my;
+  if (nx < 0 || ny < 0 || nx + space.widths[i] > width || ny + space.heights[i] > height) return false;
+  for (const { dx, dy } of space.offsets[i]) {
+    const o = owner[(ny + dy) * width + nx + dx];
+    if (o !== -1 && o !== i) return false;
   }
-  
   return true;
 };
 
-export const findSolution = (initialBlocks: Block[], maxDepth = 200): SimplifiedMove[] | null => {
-  // Convert full Block objects to lighter SolverBlock objects
-  // The order in the array is preserved, so blockIndex 0 is always block 0.
-  const startBlocks: SolverBlock[] = initialBlocks.map(b => ({
-    type: b.type, x: b.x, y: b.y, width: b.width, height: b.height
-  }));
-  
-  const startHash = encodeState(startBlocks);
-  if (isSolved(startBlocks)) return [];
-  
-  const queue: SolverState[] = [{ blocks: startBlocks, path: [] }];
-  const visited = new Set<string>();
-  visited.add(startHash);
-  
-  let head = 0;
-  const MAX_ITERATIONS = 50000; // Safety limit
-  
-  while(head < queue.length) {
-    if (head > MAX_ITERATIONS) return null; // Too complex or stuck
-    
-    const current = queue[head++];
-    
-    // Try moving each block in each direction
-    for (let i = 0; i < current.blocks.length; i++) {
-      const dirs = [Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT];
-      
-      for (const dir of dirs) {
-        if (canMove(i, dir, current.blocks)) {
-          // Clone blocks
-          const newBlocks = current.blocks.map(b => ({...b}));
-          
-          // Apply move
-          if (dir === Direction.UP) newBlocks[i].y--;
-          else if (dir === Direction.DOWN) newBlocks[i].y++;
-          else if (dir === Direction.LEFT) newBlocks[i].x--;
-          else if (dir === Direction.RIGHT) newBlocks[i].x++;
-          
-          const hash = encodeState(newBlocks);
-          
-          if (!visited.has(hash)) {
-            const newPath = [...current.path, { blockIndex: i, direction: dir }];
-            
-            if (isSolved(newBlocks)) {
-              return newPath;
-            }
-            
-            if (newPath.length < maxDepth) {
-              visited.add(hash);
-              queue.push({ blocks: newBlocks, path: newPath });
-            }
+export const isGoalPosition = (space: SearchSpace, x: number, y: number): boolean => {
+  const { goal } = space.level;
+  return space.offsets[space.targetIndex].every(({ dx, dy }) =>
+    x + dx >= goal.x && y + dy >= goal.y && x + dx < goal.x + goal.width && y + dy < goal.y + goal.height);
+};
+
+// Explore the state graph breadth-first from `blocks`. With `stopAtGoal` the
+// search ends at the first goal state; otherwise it covers every reachable
+// state. Goal states are not expanded unless `expandGoals` is set: the game is
+// over once the target is out.
+export const searchStates = (
+  level: LevelDefinition,
+  blocks: Block[],
+  { stopAtGoal = false, expandGoals = false, metric = MoveMetric.STEP, onProgress, onEdge }: SearchOptions = {}
+): SearchResult => {
+  const space = prepareSearch(level, blocks, metric);
+  const { blockCount, cellCount, offsets, shapeCodes, targetIndex } = space;
+  const { width } = level;
+  const slides = metric === MoveMetric.SLIDE;
+  const stride = blockCount * 2;
+
+  let capacity = 1024;
+  let positions = new Uint8Array(capacity * stride);
+  let parents = new Int32Array(capacity);
+  let moveCodes = new Int32Array(capacity);
+  let stateCount = 0;
+
+  const grow = () => {
+    capacity *= 2;
+    const p = new Uint8Array(capacity * stride); p.set(positions); positions = p;
+    const pa = new Int32Array(capacity); pa.set(parents); parents = pa;
+    const m = new Int32Array(capacity); m.set(moveCodes); moveCodes = m;
+  };
+
+  const owner = new Int16Array(cellCount); // Block index per cell, -1 empty
+  const grid = new Int8Array(cellCount); // Shape code per cell
+  const visited = new Map<StateKey, number>(); // Key -> state index
+
+  // Positions one block reaches within a single move, with the direction of
+  // the first shift that got there. `seen` holds the stamp of the block
+  // expansion that last visited a cell, so it never needs clearing.
+  const reachQueue = new Int16Array(cellCount);
+  const reachFirst = new Int8Array(cellCount);
+  const seen = new Int32Array(cellCount);
+  let stamp = 0;
+
+  // Start state
+  blocks.forEach((b, i) => { positions[i * 2] = b.x; positions[i * 2 + 1] = b.y; });
+  parents[0] = -1;
+  moveCodes[0] = -1;
+  stateCount = 1;
+
+  const fillGrids = (state: number) => {
+    fillOwner(space, positions, state, owner);
+    for (let cell = 0; cell < cellCount; cell++) grid[cell] = owner[cell] === -1 ? 0 : shapeCodes[owner[cell]];
+  };
+
+  fillGrids(0);
+  visited.set(packGrid(space, grid), 0);
+  if (!expandGoals && targetIndex !== -1 && isGoalPosition(space, blocks[targetIndex].x, blocks[targetIndex].y)) {
+    return { space, positions, parents, moveCodes, stateCount, goalState: 0 };
+  }
+
+  // States before `layerEnd` belong to the current depth
+  let depth = 0;
+  let layerEnd = stateCount;
+
+  for (let head = 0; head < stateCount; head++) {
+    if (head === layerEnd) {
+      depth++;
+      layerEnd = stateCount;
+    }
+    if (onProgress && head % PROGRESS_INTERVAL === 0) onProgress({ explored: head, depth });
+
+    const base = head * stride;
+    const atGoal = !expandGoals && targetIndex !== -1 &&
+      isGoalPosition(space, positions[base + targetIndex * 2], positions[base + targetIndex * 2 + 1]);
+    if (atGoal) continue;
+    fillGrids(head);
+
+    for (let i = 0; i < blockCount; i++) {
+      const bx = positions[base + i * 2];
+      const by = positions[base + i * 2 + 1];
+      const cells = offsets[i];
+
+      // Every position this block reaches in one move: a single shift under
+      // STEP, a flood through free cells under SLIDE. A slide ends as soon as
+      // the target reaches the goal, just as the game does.
+      stamp++;
+      seen[by * width + bx] = stamp;
+      reachQueue[0] = by * width + bx;
+      reachFirst[0] = -1;
+      let reachTail = 1;
+
+      for (let r = 0; r < reachTail; r++) {
+        const px = reachQueue[r] % width;
+        const py = (reachQueue[r] / width) | 0;
+
+        for (let d = 0; d < 4; d++) {
+          if (!canShift(space, owner, i, px, py, d)) continue;
+          const { dx: mx, dy: my } = DIRECTION_DELTAS[DIRECTIONS[d]];
+          const nx = px + mx;
+          const ny = py + my;
+          if (seen[ny * width + nx] === stamp) continue;
+          seen[ny * width + nx] = stamp;
+          const first = reachFirst[r] === -1 ? d : reachFirst[r];
+          if (slides && !(i === targetIndex && isGoalPosition(space, nx, ny))) {
+            reachQueue[reachTail] = ny * width + nx;
+            reachFirst[reachTail] = first;
+            reachTail++;
+          }
+
+          // Move the block in the code grid, pack, then move it back
+          for (const { dx, dy } of cells) grid[(by + dy) * width + bx + dx] = 0;
+          for (const { dx, dy } of cells) grid[(ny + dy) * width + nx + dx] = shapeCodes[i];
+          const key = packGrid(space, grid);
+          for (const { dx, dy } of cells) grid[(ny + dy) * width + nx + dx] = 0;
+          for (const { dx, dy } of cells) grid[(by + dy) * width + bx + dx] = shapeCodes[i];
+
+          const known = visited.get(key);
+          if (known !== undefined) {
+            onEdge?.(head, known);
+            continue;
+          }
+
+          if (stateCount === capacity) grow();
+          const child = stateCount++;
+          visited.set(key, child);
+          onEdge?.(head, child);
+          positions.copyWithin(child * stride, base, base + stride);
+          positions[child * stride + i * 2] = nx;
+          positions[child * stride + i * 2 + 1] = ny;
+          parents[child] = head;
+          moveCodes[child] = i * 4 + first;
+
+          if (stopAtGoal && i === targetIndex && isGoalPosition(space, nx, ny)) {
+            return { space, positions, parents, moveCodes, stateCount, goalState: child };
           }
         }
       }
     }
   }
-  
-  return null; // No solution found
-};
\ No newline at end of file
+
+  return { space, positions, parents, moveCodes, stateCount, goalState: -1 };
+};
+
+// Shortest run of unit shifts taking block `i` from its position in `parent`
+// to its position in `child`, with every other block held still
+const slideShifts = (result: SearchResult, parent: number, child: number, i: number): SimplifiedMove[] => {
+  const { space, positions } = result;
+  const { width } = space.level;
+  const stride = space.blockCount * 2;
+  const owner = new Int16Array(space.cellCount);
+  fillOwner(space, positions, parent, owner);
+
+  const start = positions[parent * stride + i * 2 + 1] * width + positions[parent * stride + i * 2];
+  const end = positions[child * stride + i * 2 + 1] * width + positions[child * stride + i * 2];
+  const from = new Int16Array(space.cellCount).fill(-1); // Previous cell, -1 unvisited
+  const via = new Int8Array(space.cellCount); // Direction index that entered the cell
+  from[start] = start;
+  const queue = [start];
+  for (let q = 0; q < queue.length && from[end] === -1; q++) {
+    const pos = queue[q];
+    if (i === space.targetIndex && pos !== start && isGoalPosition(space, pos % width, (pos / width) | 0)) continue;
+    for (let d = 0; d < 4; d++) {
+      if (!canShift(space, owner, i, pos % width, (pos / width) | 0, d)) continue;
+      const { dx, dy } = DIRECTION_DELTAS[DIRECTIONS[d]];
+      const next = pos + dy * width + dx;
+      if (from[next] !== -1) continue;
+      from[next] = pos;
+      via[next] = d;
+      queue.push(next);
+    }
+  }
+
+  const shifts: SimplifiedMove[] = [];
+  for (let pos = end; pos !== start; pos = from[pos]) {
+    shifts.push({ blockIndex: i, direction: DIRECTIONS[via[pos]] });
+  }
+  return shifts.reverse();
+};
+
+// Walk parent pointers back from `state` to the start. The result is always a
+// list of unit shifts; under SLIDE consecutive shifts of one block form a move.
+export const reconstructPath = (result: SearchResult, state: number): SimplifiedMove[] => {
+  const path: SimplifiedMove[] = [];
+  for (let s = state; result.parents[s] !== -1; s = result.parents[s]) {
+    const code = result.moveCodes[s];
+    if (result.space.metric === MoveMetric.SLIDE) {
+      path.push(...slideShifts(result, result.parents[s], s, code >> 2).reverse());
+    } else {
+      path.push({ blockIndex: code >> 2, direction: DIRECTIONS[code & 3] });
+    }
+  }
+  return path.reverse();
+};
+
+// Optimal solution in `metric`, as unit shifts
+export const findSolution = (
+  level: LevelDefinition,
+  initialBlocks: Block[] = level.blocks,
+  metric = MoveMetric.STEP,
+  onProgress?: (progress: SearchProgress) => void
+): SimplifiedMove[] | null => {
+  // The order in the array is preserved, so blockIndex 0 is always block 0.
+  const result = searchStates(level, initialBlocks, { stopAtGoal: true, metric, onProgress });
+  return result.goalState === -1 ? null : reconstructPath(result, result.goalState);
+};
@@ -0,0 +1,12 @@
+/// <reference lib="webworker" />
+import { SolverRequest, SolverResponse, runSolverRequest } from './solverProtocol';
+
+// Runs solver requests off the main thread. One worker handles one request and
+// is terminated by the client afterwards, which is also how cancellation works.
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const post = (message: SolverResponse) => ctx.postMessage(message);
+  const result = runSolverRequest(e.data, progress => post({ type: 'progress', progress } as SolverResponse));
+  post({ type: 'done', result });
+};
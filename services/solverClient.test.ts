@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HENG_DAO_LI_MA } from '../constants';
+import { isSolverCancelled, solveAsync } from './solverClient';
+import { runSolverRequest } from './solverProtocol';
+
+vi.mock('./solverProtocol', async importOriginal => ({
+  ...await importOriginal<typeof import('./solverProtocol')>(),
+  runSolverRequest: vi.fn(),
+}));
+
+// Node has no Worker, so these exercise the inline fallback
+describe('solveAsync without a worker', () => {
+  it('resolves with the search result', async () => {
+    vi.mocked(runSolverRequest).mockReturnValueOnce([]);
+    await expect(solveAsync(HENG_DAO_LI_MA).promise).resolves.toEqual([]);
+  });
+
+  it('rejects when the search throws', async () => {
+    vi.mocked(runSolverRequest).mockImplementationOnce(() => { throw new Error('Bad level'); });
+    await expect(solveAsync(HENG_DAO_LI_MA).promise).rejects.toThrow('Bad level');
+  });
+
+  it('rejects as cancelled when cancelled before it starts', async () => {
+    const task = solveAsync(HENG_DAO_LI_MA);
+    task.cancel();
+    const error = await task.promise.catch(e => e);
+    expect(isSolverCancelled(error)).toBe(true);
+  });
+});
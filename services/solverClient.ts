@@ -0,0 +1,95 @@
+import { Block, LevelDefinition, MoveMetric } from '../types';
+import { SearchProgress, SimplifiedMove } from './solver';
+import { StateSpaceReport } from './analysis';
+import { GeneratedPuzzle, GeneratorOptions, GeneratorProgress } from './generator';
+import { SolverRequest, SolverResponse, runSolverRequest } from './solverProtocol';
+
+// Promise-based front end for the solver. Searches run in a Web Worker so the
+// board stays responsive, report progress while they go and can be cancelled
+// when the position they were started for is gone (player moved, reset, ...).
+
+export interface SolverTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export type SolveTask = SolverTask<SimplifiedMove[] | null>;
+
+export class SolverCancelledError extends Error {
+  constructor() {
+    super('Solver run was cancelled');
+    this.name = 'SolverCancelledError';
+  }
+}
+
+export const isSolverCancelled = (error: unknown): boolean => error instanceof SolverCancelledError;
+
+const runTask = <T, P = SearchProgress>(request: SolverRequest, onProgress?: (progress: P) => void): SolverTask<T> => {
+  // No worker support (tests, scripts): run inline on the next tick
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = new Promise<T>((resolve, reject) => {
+      setTimeout(() => {
+        if (cancelled) return reject(new SolverCancelledError());
+        try {
+          resolve(runSolverRequest(request, onProgress) as T);
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error('Solver failed'));
+        }
+      }, 0);
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+  let settle: { reject: (error: Error) => void } | null = null;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    settle = { reject };
+    worker.onmessage = (e: MessageEvent<SolverResponse>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress as P);
+        return;
+      }
+      worker.terminate();
+      settle = null;
+      resolve(message.result as T);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      settle = null;
+      reject(new Error(e.message || 'Solver worker failed'));
+    };
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    if (!settle) return;
+    worker.terminate();
+    settle.reject(new SolverCancelledError());
+    settle = null;
+  };
+
+  return { promise, cancel };
+};
+
+export const solveAsync = (
+  level: LevelDefinition,
+  blocks: Block[] = level.blocks,
+  metric = MoveMetric.STEP,
+  onProgress?: (progress: SearchProgress) => void
+): SolveTask => runTask({ kind: 'solve', level, blocks, metric }, onProgress);
+
+export const analyzeAsync = (
+  level: LevelDefinition,
+  blocks: Block[] = level.blocks,
+  metric = MoveMetric.STEP,
+  onProgress?: (progress: SearchProgress) => void
+): SolverTask<StateSpaceReport> => runTask({ kind: 'analyze', level, blocks, metric }, onProgress);
+
+export const generateAsync = (
+  template: LevelDefinition,
+  options: Omit<GeneratorOptions, 'onProgress'>,
+  onProgress?: (progress: GeneratorProgress) => void
+): SolverTask<GeneratedPuzzle | null> => runTask({ kind: 'generate', template, options }, onProgress);
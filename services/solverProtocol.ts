@@ -0,0 +1,24 @@
+import { Block, LevelDefinition, MoveMetric } from '../types';
+import { SearchProgress, SimplifiedMove, findSolution } from './solver';
+import { StateSpaceReport, analyzeStateSpace } from './analysis';
+import { GeneratedPuzzle, GeneratorOptions, GeneratorProgress, generateLevel } from './generator';
+
+// Messages between solverClient and solver.worker. Kept apart from the client
+// so the worker bundle does not pull in the code that spawns workers.
+
+export type SolverRequest =
+  | { kind: 'solve' | 'analyze'; level: LevelDefinition; blocks: Block[]; metric: MoveMetric }
+  | { kind: 'generate'; template: LevelDefinition; options: Omit<GeneratorOptions, 'onProgress'> };
+
+export type SolverResponse =
+  | { type: 'progress'; progress: SearchProgress | GeneratorProgress }
+  | { type: 'done'; result: SimplifiedMove[] | null | StateSpaceReport | GeneratedPuzzle };
+
+// Runs a request on the calling thread; the worker does exactly this
+export const runSolverRequest = (request: SolverRequest, onProgress?: (progress: unknown) => void) => {
+  if (request.kind === 'generate') return generateLevel(request.template, { ...request.options, onProgress });
+  const { kind, level, blocks, metric } = request;
+  return kind === 'analyze'
+    ? analyzeStateSpace(level, blocks, metric, onProgress)
+    : findSolution(level, blocks, metric, onProgress);
+};
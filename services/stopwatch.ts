@@ -0,0 +1,61 @@
+// Play time for one game. It runs from start() until stop(), but only while
+// the page is visible, so a game left in a background tab is not penalised.
+
+export class Stopwatch {
+  private accumulatedMs: number;
+  private runningSince: number | null = null;
+  private started = false;
+  private stopped = false;
+  private visible = true;
+
+  constructor(elapsedMs = 0) {
+    this.accumulatedMs = elapsedMs;
+  }
+
+  private update() {
+    const running = this.started && !this.stopped && this.visible;
+    if (running && this.runningSince === null) {
+      this.runningSince = Date.now();
+    } else if (!running && this.runningSince !== null) {
+      this.accumulatedMs += Date.now() - this.runningSince;
+      this.runningSince = null;
+    }
+  }
+
+  start() {
+    this.started = true;
+    this.update();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.update();
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    this.update();
+  }
+
+  // Back to a fresh, not yet started game
+  reset(elapsedMs = 0) {
+    this.accumulatedMs = elapsedMs;
+    this.runningSince = null;
+    this.started = false;
+    this.stopped = false;
+  }
+
+  get isStarted() {
+    return this.started;
+  }
+
+  get elapsedMs() {
+    return this.accumulatedMs + (this.runningSince === null ? 0 : Date.now() - this.runningSince);
+  }
+}
+
+// m:ss
+export const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,159 @@
+import { GameState, HistoryTree, LevelDefinition, Move, MoveMetric, PackProgress } from '../types';
+import { replayMoves } from './engine';
+import { isValidTree, pathTo } from './historyTree';
+import { DailyHistory } from './daily';
+import { DEFAULT_BINDINGS, KeyBindings, parseBindings } from './inputMap';
+
+// Everything that survives a page reload, kept under one localStorage key.
+//
+// Saves carry a version number. When the shape changes, bump SAVE_VERSION and
+// append a step to MIGRATIONS that turns the previous version into the new
+// one; older saves are walked forward step by step on load. A save that is
+// unreadable, or newer than this build understands, is set aside rather than
+// thrown away so a later build can still pick it up.
+
+const STORAGE_KEY = 'royal-escape:save';
+const SAVE_VERSION = 2;
+
+export interface Settings {
+  muted: boolean;
+  metric: MoveMetric; // For new games
+  keyBindings: KeyBindings;
+  theme: string | null; // Theme id; null follows each level's suggestion
+}
+
+// The game in progress. Moves are stored rather than block positions and are
+// replayed on load, so a tampered or stale save cannot produce an illegal board.
+export interface SavedGame {
+  level: LevelDefinition;
+  metric: MoveMetric;
+  history: Move[];
+  tree?: HistoryTree; // Branches the player undid out of; missing from older saves
+  selectedBlockId: string | null;
+  elapsedMs: number; // Time spent on the game so far
+  hintsUsed?: number; // Missing from saves written before hints were tracked
+  autoMoves?: number;
+}
+
+export interface SaveData {
+  version: number;
+  game: SavedGame | null;
+  progress: PackProgress; // Per-level bests, keyed by level id
+  daily: DailyHistory; // First finish of each daily challenge, keyed by date
+  settings: Settings;
+}
+
+export const DEFAULT_SETTINGS: Settings = { muted: false, metric: MoveMetric.STEP, keyBindings: DEFAULT_BINDINGS, theme: null };
+
+const emptySave = (): SaveData => ({ version: SAVE_VERSION, game: null, progress: {}, daily: {}, settings: DEFAULT_SETTINGS });
+
+// MIGRATIONS[n - 1] upgrades a version n save to version n + 1
+type Migration = (save: Record<string, unknown>) => Record<string, unknown>;
+const MIGRATIONS: Migration[] = [
+  // 1 -> 2: daily challenge history
+  (save) => ({ ...save, daily: {} }),
+];
+
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Access throws when storage is disabled (privacy modes, sandboxed frames)
+    return null;
+  }
+};
+
+const setAside = (storage: Storage, raw: string, reason: string) => {
+  console.warn(`Ignoring saved game: ${reason}`);
+  try {
+    storage.setItem(`${STORAGE_KEY}:unreadable`, raw);
+  } catch {
+    // Keeping the copy is best effort
+  }
+};
+
+export const loadSave = (): SaveData => {
+  const storage = getStorage();
+  const raw = storage?.getItem(STORAGE_KEY);
+  if (!storage || !raw) return emptySave();
+
+  let save: Record<string, unknown>;
+  try {
+    save = JSON.parse(raw);
+  } catch {
+    setAside(storage, raw, 'not valid JSON');
+    return emptySave();
+  }
+  if (!save || typeof save !== 'object' || typeof save.version !== 'number') {
+    setAside(storage, raw, 'no version');
+    return emptySave();
+  }
+  if (save.version > SAVE_VERSION) {
+    setAside(storage, raw, `version ${save.version} is newer than this build`);
+    return emptySave();
+  }
+
+  try {
+    while ((save.version as number) < SAVE_VERSION) {
+      const from = save.version as number;
+      save = { ...MIGRATIONS[from - 1](save), version: from + 1 };
+    }
+  } catch (error) {
+    setAside(storage, raw, `migration from version ${save.version} failed (${error})`);
+    return emptySave();
+  }
+
+  const data = save as unknown as SaveData;
+  return {
+    version: SAVE_VERSION,
+    game: data.game ?? null,
+    progress: data.progress ?? {},
+    daily: data.daily ?? {},
+    // Actions added since the save was written get their default keys
+    settings: { ...DEFAULT_SETTINGS, ...data.settings, keyBindings: parseBindings(data.settings?.keyBindings) },
+  };
+};
+
+export const writeSave = (data: Omit<SaveData, 'version'>) => {
+  const storage = getStorage();
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ version: SAVE_VERSION, ...data }));
+  } catch (error) {
+    // Quota exceeded and the like; the game keeps working without saving
+    console.error("Error saving game:", error);
+  }
+};
+
+export const toSavedGame = (game: GameState, elapsedMs: number): SavedGame => ({
+  level: game.level,
+  metric: game.metric,
+  history: game.history,
+  tree: game.tree,
+  selectedBlockId: game.selectedBlockId,
+  elapsedMs,
+  hintsUsed: game.hintsUsed,
+  autoMoves: game.autoMoves,
+});
+
+// Rebuild a saved game; null if its moves no longer replay on its level
+export const restoreGame = (saved: SavedGame): GameState | null => {
+  try {
+    const { game, failedAt } = replayMoves(saved.level, saved.history, saved.metric);
+    if (failedAt !== -1) return null;
+    // Keep the saved branches only if they agree with the replayed line
+    const tree = saved.tree && isValidTree(saved.tree) &&
+      JSON.stringify(pathTo(saved.tree, saved.tree.current)) === JSON.stringify(saved.history)
+      ? saved.tree : game.tree;
+    return {
+      ...game,
+      tree,
+      selectedBlockId: saved.selectedBlockId,
+      hintsUsed: saved.hintsUsed ?? 0,
+      autoMoves: saved.autoMoves ?? 0,
+    };
+  } catch (error) {
+    console.error("Error restoring saved game:", error);
+    return null;
+  }
+};
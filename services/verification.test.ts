@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { Move, MoveMetric } from '../types';
+import { BUILTIN_PACKS } from './levelPacks';
+import { encodeLayout, encodeMoves } from './shareLink';
+import { findSolution } from './solver';
+import { MIN_MS_PER_MOVE, ScoreSubmission, verifySubmission } from './verification';
+
+const pack = BUILTIN_PACKS[0];
+const { level } = pack.levels[0];
+
+const solution: Move[] = findSolution(level)!
+  .map(m => ({ blockId: level.blocks[m.blockIndex].id, direction: m.direction }));
+
+const submission = (moves: Move[], timeMs = 60_000): ScoreSubmission => ({
+  levelId: level.id,
+  layout: encodeLayout(level),
+  metric: MoveMetric.STEP,
+  moves: encodeMoves(level, moves),
+  timeMs,
+});
+
+describe('verifySubmission', () => {
+  it('accepts an optimal solution', () => {
+    expect(verifySubmission([pack], submission(solution))).toEqual({ moves: solution.length, error: null });
+  });
+
+  it('rejects illegal and unfinished move lists', () => {
+    expect(verifySubmission([pack], submission([...solution].reverse())).moves).toBeNull();
+    expect(verifySubmission([pack], submission(solution.slice(0, -1))).error).toBe('The moves do not solve the level.');
+  });
+
+  it('rejects times faster than anyone can play', () => {
+    expect(verifySubmission([pack], submission(solution, 0)).moves).toBeNull();
+    expect(verifySubmission([pack], submission(solution, solution.length * MIN_MS_PER_MOVE)).moves).toBe(solution.length);
+  });
+
+  it('refuses oversized move lists before replaying them', () => {
+    const huge = Array.from({ length: solution.length * 40 }, () => solution[0]);
+    expect(verifySubmission([pack], submission(huge)).error).toBe('The move list is too long.');
+  });
+});
@@ -0,0 +1,103 @@
+import { LevelDefinition, LevelPack, Move, MoveMetric } from '../types';
+import { canMove, countMoves, isAtGoal, shiftBlock } from './engine';
+import { findSolution } from './solver';
+import { findPackLevel } from './levelPacks';
+import { decodeMoves, encodeLayout } from './shareLink';
+
+// Checks a claimed solution by replaying it through the engine from the
+// level's starting position. Anything that reports a score should go through
+// this rather than trusting a move count. The same code runs in the browser
+// and in the submitScore Cloud Function (functions/src/index.ts).
+
+// `moves` is the verified count in the requested metric, null when rejected
+export interface VerificationResult {
+  moves: number | null;
+  error: string | null;
+}
+
+const reject = (error: string): VerificationResult => ({ moves: null, error });
+
+export const verifySolution = (
+  level: LevelDefinition,
+  history: Move[],
+  metric = MoveMetric.STEP
+): VerificationResult => {
+  if (history.length === 0) return reject('No moves were submitted.');
+
+  // Board positions only: a full GameState would copy its history and tree
+  // on every move, which adds up on long submissions
+  let blocks = level.blocks;
+  for (let i = 0; i < history.length; i++) {
+    if (isAtGoal(level, blocks)) return reject(`The puzzle was already solved before move ${i + 1}.`);
+    const index = blocks.findIndex(b => b.id === history[i].blockId);
+    if (index === -1 || !canMove(level, blocks, index, history[i].direction)) {
+      return reject(`Move ${i + 1} is not legal in its position.`);
+    }
+    blocks = shiftBlock(blocks, index, history[i].direction);
+  }
+  if (!isAtGoal(level, blocks)) return reject('The moves do not solve the level.');
+  return { moves: countMoves(history, metric), error: null };
+};
+
+// A leaderboard score as sent to the server
+export interface ScoreSubmission {
+  levelId: string;
+  layout: string; // encodeLayout of the level as played, to catch stale or altered levels
+  metric: MoveMetric;
+  moves: string; // encodeMoves of the full history
+  timeMs: number;
+}
+
+// Longest history accepted, in unit shifts per move of the optimal solution.
+// Far beyond any real attempt; it only bounds the work a submission can cause.
+const MAX_SHIFTS_PER_OPTIMAL_MOVE = 20;
+
+// Characters encodeMoves spends on one shift at most
+const MAX_CHARS_PER_SHIFT = 3;
+
+// Fastest pace credited, per move in the submission's metric. Times below it
+// cannot come from play and would otherwise top the fastest-time board.
+export const MIN_MS_PER_MOVE = 100;
+
+// Optimal solution lengths by layout and metric; the search is the expensive part
+const optimumCache = new Map<string, number | null>();
+
+export const optimalMoves = (level: LevelDefinition, metric: MoveMetric): number | null => {
+  const key = `${metric}:${encodeLayout(level)}`;
+  if (!optimumCache.has(key)) {
+    const path = findSolution(level, level.blocks, metric);
+    optimumCache.set(key, path ? countMoves(path.map(s => ({ blockId: level.blocks[s.blockIndex].id, direction: s.direction })), metric) : null);
+  }
+  return optimumCache.get(key)!;
+};
+
+// Full check of a submitted score against the levels in `packs`: the level
+// must exist and match, the moves must be legal and end solved, the count may
+// not undercut the solver's proven optimum and the time may not undercut
+// MIN_MS_PER_MOVE. Oversized move lists are turned away before any replay.
+export const verifySubmission = (packs: LevelPack[], submission: ScoreSubmission): VerificationResult => {
+  const found = findPackLevel(packs, submission.levelId);
+  if (!found) return reject(`Unknown level "${submission.levelId}".`);
+  const { level } = found.pack.levels[found.index];
+  if (submission.layout !== encodeLayout(level)) return reject('The moves were played on a different layout of this level.');
+  if (submission.metric !== MoveMetric.STEP && submission.metric !== MoveMetric.SLIDE) {
+    return reject(`Unknown move metric "${submission.metric}".`);
+  }
+
+  const optimum = optimalMoves(level, submission.metric);
+  if (optimum === null) return reject('The level has no solution.');
+  const maxShifts = optimum * MAX_SHIFTS_PER_OPTIMAL_MOVE;
+  if (submission.moves.length > 1 + maxShifts * MAX_CHARS_PER_SHIFT) return reject('The move list is too long.');
+
+  const { moves: history, error } = decodeMoves(level, submission.moves);
+  if (error) return reject(error);
+  if (history.length > maxShifts) return reject('The move list is too long.');
+  const result = verifySolution(level, history, submission.metric);
+  if (result.moves === null) return result;
+
+  if (result.moves < optimum) return reject(`${result.moves} moves is below the proven optimum of ${optimum}.`);
+  if (submission.timeMs < result.moves * MIN_MS_PER_MOVE) {
+    return reject(`${result.moves} moves cannot be played in ${submission.timeMs} ms.`);
+  }
+  return result;
+};
@@ -0,0 +1,133 @@
+import { Castle, ChessBishop, ChessKing, ChessKnight, ChessPawn, ChessRook, Crown, Shield, Sword, User } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Block, BlockType, LevelDefinition } from './types';
+import { DEFAULT_LABELS } from './constants';
+
+// Looks for the board and its pieces. The player picks one in the theme
+// picker; until they do, a level's own `theme` (if any) is used, then classic.
+// Colors are Tailwind classes, so arbitrary values like bg-[#E69F00] work.
+
+export interface BlockSkin {
+  colors: string; // Fill, bottom edge and text/icon color
+  icon: LucideIcon;
+  iconClassName?: string;
+  label?: string; // Replaces the default label; levels that name a piece keep theirs
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  blocks: Record<BlockType, BlockSkin>;
+  board: string; // Frame fill and its bottom edge
+  exit: string; // Exit marker color and opacity
+}
+
+const CLASSIC_ICONS: Record<BlockType, Pick<BlockSkin, 'icon' | 'iconClassName'>> = {
+  [BlockType.KING]: { icon: Crown },
+  [BlockType.HORIZONTAL]: { icon: Sword, iconClassName: 'rotate-90' },
+  [BlockType.VERTICAL]: { icon: Shield },
+  [BlockType.PAWN]: { icon: User },
+  [BlockType.SHAPE]: { icon: Castle },
+};
+
+// Classic icons with the given colors per piece
+const classicSkins = (colors: Record<BlockType, string>) => Object.fromEntries(
+  Object.values(BlockType).map(type => [type, { ...CLASSIC_ICONS[type], colors: colors[type] }])
+) as Record<BlockType, BlockSkin>;
+
+export const THEMES: Theme[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    blocks: classicSkins({
+      [BlockType.KING]: 'bg-amber-500 border-amber-700 text-white',
+      [BlockType.HORIZONTAL]: 'bg-emerald-500 border-emerald-700 text-white',
+      [BlockType.VERTICAL]: 'bg-blue-500 border-blue-700 text-white',
+      [BlockType.PAWN]: 'bg-slate-400 border-slate-600 text-white',
+      [BlockType.SHAPE]: 'bg-violet-500 border-violet-700 text-white',
+    }),
+    board: 'bg-slate-800 border-slate-900',
+    exit: 'text-slate-500 opacity-40',
+  },
+  {
+    id: 'wooden',
+    name: 'Wooden',
+    blocks: classicSkins({
+      [BlockType.KING]: 'bg-amber-600 border-amber-800 text-amber-50',
+      [BlockType.HORIZONTAL]: 'bg-orange-800 border-orange-950 text-orange-100',
+      [BlockType.VERTICAL]: 'bg-yellow-700 border-yellow-900 text-yellow-50',
+      [BlockType.PAWN]: 'bg-stone-400 border-stone-600 text-stone-50',
+      [BlockType.SHAPE]: 'bg-red-900 border-red-950 text-red-100',
+    }),
+    board: 'bg-amber-900 border-amber-950',
+    exit: 'text-amber-800 opacity-60',
+  },
+  {
+    id: 'chess',
+    name: 'Chess',
+    blocks: {
+      [BlockType.KING]: { icon: ChessKing, colors: 'bg-stone-900 border-black text-amber-300' },
+      [BlockType.HORIZONTAL]: { icon: ChessRook, label: 'ROOK', colors: 'bg-stone-100 border-stone-400 text-stone-900' },
+      [BlockType.VERTICAL]: { icon: ChessBishop, label: 'BISHOP', colors: 'bg-stone-100 border-stone-400 text-stone-900' },
+      [BlockType.PAWN]: { icon: ChessPawn, colors: 'bg-stone-800 border-black text-stone-100' },
+      [BlockType.SHAPE]: { icon: ChessKnight, label: 'KNIGHT', colors: 'bg-stone-700 border-stone-900 text-stone-100' },
+    },
+    board: 'bg-[#769656] border-[#4b6635]',
+    exit: 'text-[#4b6635] opacity-70',
+  },
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    blocks: classicSkins({
+      [BlockType.KING]: 'bg-yellow-300 border-yellow-600 text-black',
+      [BlockType.HORIZONTAL]: 'bg-white border-neutral-400 text-black',
+      [BlockType.VERTICAL]: 'bg-cyan-300 border-cyan-600 text-black',
+      [BlockType.PAWN]: 'bg-neutral-300 border-neutral-500 text-black',
+      [BlockType.SHAPE]: 'bg-fuchsia-300 border-fuchsia-600 text-black',
+    }),
+    board: 'bg-black border-neutral-600',
+    exit: 'text-black opacity-100',
+  },
+  {
+    id: 'dark',
+    name: 'Dark',
+    blocks: classicSkins({
+      [BlockType.KING]: 'bg-amber-600 border-amber-800 text-amber-50',
+      [BlockType.HORIZONTAL]: 'bg-slate-600 border-slate-800 text-emerald-300',
+      [BlockType.VERTICAL]: 'bg-slate-600 border-slate-800 text-sky-300',
+      [BlockType.PAWN]: 'bg-slate-700 border-slate-900 text-slate-300',
+      [BlockType.SHAPE]: 'bg-slate-600 border-slate-800 text-violet-300',
+    }),
+    board: 'bg-slate-950 border-black',
+    exit: 'text-slate-600 opacity-70',
+  },
+  {
+    // Okabe-Ito palette, told apart with any common form of color blindness
+    id: 'colorblind',
+    name: 'Colorblind-safe',
+    blocks: classicSkins({
+      [BlockType.KING]: 'bg-[#E69F00] border-[#A36F00] text-black',
+      [BlockType.HORIZONTAL]: 'bg-[#0072B2] border-[#004C77] text-white',
+      [BlockType.VERTICAL]: 'bg-[#56B4E9] border-[#2C84B5] text-black',
+      [BlockType.PAWN]: 'bg-[#F0E442] border-[#B2A71B] text-black',
+      [BlockType.SHAPE]: 'bg-[#CC79A7] border-[#97507A] text-black',
+    }),
+    board: 'bg-slate-800 border-slate-900',
+    exit: 'text-slate-500 opacity-60',
+  },
+];
+
+export const DEFAULT_THEME = THEMES[0];
+
+export const findTheme = (id: string | null | undefined): Theme | undefined => THEMES.find(t => t.id === id);
+
+// The player's pick, else the level's suggestion, else classic. Unknown ids
+// (a pack made for a newer build, say) fall through.
+export const resolveTheme = (chosenId: string | null, level: LevelDefinition): Theme =>
+  findTheme(chosenId) ?? findTheme(level.theme) ?? DEFAULT_THEME;
+
+// Label a piece shows under `theme`
+export const blockLabel = (theme: Theme, block: Block): string | undefined =>
+  !block.label || block.label === DEFAULT_LABELS[block.type]
+    ? theme.blocks[block.type].label ?? block.label
+    : block.label;
@@ -2,24 +2,21 @@ export enum BlockType {
   KING = 'KING',
   VERTICAL = 'VERTICAL',
   HORIZONTAL = 'HORIZONTAL',
-  PAWN = 'PAWN'
+  PAWN = 'PAWN',
+  SHAPE = 'SHAPE' // Arbitrary polyomino described by `mask`
 }
 
 export interface Block {
   id: string;
   type: BlockType;
-  x: number; // 0-3
-  y: number; // 0-4
-  width: number;
+  x: number; // 0..level.width-1
+  y: number; // 0..level.height-1
+  width: number; // Bounding box
   height: number;
   label?: string;
-}
-
-export interface GameState {
-  blocks: Block[];
-  selectedBlockId: string | null;
-  moves: number;
-  isWon: boolean;
+  // Cell mask, one string per row of the bounding box ('#' = filled, '.' = empty).
+  // Omitted for solid rectangles.
+  mask?: string[];
 }
 
 export enum Direction {
@@ -27,4 +24,96 @@ export enum Direction {
   DOWN = 'DOWN',
   LEFT = 'LEFT',
   RIGHT = 'RIGHT'
+}
+
+// A single one-cell shift of a block
+export interface Move {
+  blockId: string;
+  direction: Direction;
+}
+
+// How moves are counted. STEP counts every one-cell shift; SLIDE is the
+// standard Klotski metric, where moving one piece any distance (around corners
+// included) without touching another piece in between is a single move.
+export enum MoveMetric {
+  STEP = 'STEP',
+  SLIDE = 'SLIDE'
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where the exit opening sits on the board frame. `offset` is the first cell
+// along that side and `length` how many cells the opening spans.
+export interface ExitPosition {
+  side: Direction;
+  offset: number;
+  length: number;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  blocks: Block[];
+  targetId: string; // Block that has to escape
+  goal: Rect; // Target block must lie fully inside this region to win
+  exit: ExitPosition;
+  theme?: string; // Suggested theme id (see themes.ts), used unless the player picked one
+}
+
+// A level inside a pack, with the move count a good solution takes
+export interface PackLevel {
+  level: LevelDefinition;
+  par: number; // In the pack's metric
+}
+
+// An ordered collection of levels, played one after another
+export interface LevelPack {
+  id: string;
+  title: string;
+  author: string;
+  metric: MoveMetric; // Metric `par` is counted in
+  levels: PackLevel[];
+}
+
+// Per-level results, keyed by level id. A level with an entry has been solved.
+export interface LevelProgress {
+  bestMoves: Partial<Record<MoveMetric, number>>;
+  bestTimeMs?: number;
+  stars?: number; // Best star rating, 1-3
+}
+
+export type PackProgress = Record<string, LevelProgress>;
+
+// Every line of play in a game; see services/historyTree.ts
+export interface HistoryNode {
+  move: Move | null; // null for the root
+  parent: number; // -1 for the root
+  children: number[]; // In the order they were first played
+  redoChild: number; // Child that redo follows, the most recently left one; -1 if none
+  chained?: boolean; // Same slide as the parent's move: undo and redo take both together
+}
+
+export interface HistoryTree {
+  nodes: HistoryNode[]; // Index is the node id; the root is 0
+  current: number;
+}
+
+export interface GameState {
+  level: LevelDefinition;
+  blocks: Block[];
+  selectedBlockId: string | null;
+  metric: MoveMetric;
+  moves: number; // Counted in `metric`
+  isWon: boolean;
+  history: Move[]; // Path from the start to the current position
+  tree: HistoryTree; // Every line played, including ones undone
+  hintsUsed: number;
+  autoMoves: number; // Unit moves played by the computer; any at all marks the game as auto-solved
 }
\ No newline at end of file